@@ -0,0 +1,522 @@
+import { Duplex, Readable } from 'stream'
+import { RtAudioFormat, RtAudioStreamStatus } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, padBlock, rtAudioFormatToByteCount } from './common'
+import { isUint8Array } from 'util/types'
+import { AudioDuplexParams } from './types'
+import { AudioBackend, rtAudioBackend } from './backend'
+import { RingBuffer } from './ring-buffer'
+import { assertSupportedParams } from './negotiate'
+import { createError, SonanceWarning } from './errors'
+
+/**
+ * Class that represents a full-duplex audio stream. It opens a single `RtAudio` stream with both
+ * input and output parameters, so that capturing and playback share the same device clock. This
+ * makes it suitable for monitoring, talkback and effect chains.
+ *
+ * See {@link AudioDuplexParams} for the parameters to instantiate it.
+ *
+ * This class extends {@link https://nodejs.org/docs/latest-v18.x/api/stream.html#stream_class_stream_duplex | `stream.Duplex`}.
+ * The readable side delivers the chunks captured from the input device, in the same way
+ * {@link AudioInputStream | `AudioInputStream`} does. The writable side accepts the chunks to be played on the
+ * output device, in the same way {@link AudioOutputStream | `AudioOutputStream`} does. Both sides are served
+ * by the same realtime callback.
+ *
+ * Ending the writable side plays the queued audio out, padding the last partial chunk with silence, and then stops
+ * the playback, but the capturing goes on until {@link AudioDuplexStream.stopAudio | `stopAudio`} is called.
+ */
+export class AudioDuplexStream extends Duplex {
+  private _rtAudio: AudioBackend
+  private _outputChunkSize: number
+  private _outputChannels: number
+  private _byteCount: number
+  private _nonInterleaved: boolean
+  private _inputBuffer: (Uint8Array | null)[]
+  private _outputBuffer: RingBuffer
+  private _pendingOutput: { chunks: Uint8Array[], callback: (error?: Error | null | undefined) => void } | null
+  private _shouldBuffer: boolean
+  private _shouldStop: boolean
+  private _shouldClearBuffer: boolean
+  private _outputEnded: boolean
+  private _finalCallback: ((error?: Error | null | undefined) => void) | null
+
+  /**
+   * Create a full-duplex audio stream
+   *
+   * @param params parameters for the duplex stream
+   */
+  constructor(params: AudioDuplexParams) {
+    const byteCount = rtAudioFormatToByteCount(params.format || RtAudioFormat.RTAUDIO_SINT16)
+    const inputChunkSize = params.bufferFrames * params.inputChannels * byteCount
+    const outputChunkSize = params.bufferFrames * params.outputChannels * byteCount
+    const writableHighWaterMark = params.highWaterMark || outputChunkSize
+    super({
+      readableHighWaterMark: inputChunkSize,
+      writableHighWaterMark: writableHighWaterMark,
+      emitClose: true
+    })
+
+    this._rtAudio = (params.backend || rtAudioBackend)(params.api)
+    if (params.strict) {
+      assertSupportedParams(this._rtAudio, params.inputDeviceId, { ...params, channels: params.inputChannels, firstChannel: params.inputFirstChannel }, 'input')
+      assertSupportedParams(this._rtAudio, params.outputDeviceId, { ...params, channels: params.outputChannels, firstChannel: params.outputFirstChannel }, 'output')
+    }
+    this._outputChunkSize = outputChunkSize
+    this._outputChannels = params.outputChannels
+    this._byteCount = byteCount
+    this._nonInterleaved = isNonInterleaved(params.options)
+    this._inputBuffer = []
+    this._outputBuffer = new RingBuffer(Math.max(writableHighWaterMark, outputChunkSize))
+    this._pendingOutput = null
+    this._shouldBuffer = true
+    this._shouldStop = false
+    this._shouldClearBuffer = false
+    this._outputEnded = false
+    this._finalCallback = null
+
+    this._rtAudio.setErrorCallback((type, message) => {
+      const error = createError(type, message, undefined, params.api)
+
+      if (error instanceof SonanceWarning) {
+        this.emit('warning', error)
+      } else {
+        this.emit('error', error)
+      }
+    })
+
+    this._rtAudio.openStream(
+      {
+        deviceId: params.outputDeviceId,
+        nChannels: params.outputChannels,
+        firstChannel: params.outputFirstChannel
+      },
+      {
+        deviceId: params.inputDeviceId,
+        nChannels: params.inputChannels,
+        firstChannel: params.inputFirstChannel
+      },
+      params.format || RtAudioFormat.RTAUDIO_SINT16,
+      params.sampleRate,
+      params.bufferFrames,
+      params.options || null,
+      (output, input, _nFrame, _streamTime, status) => {
+        if (this.closed) {
+          return 0
+        }
+
+        if (status & RtAudioStreamStatus.RTAUDIO_INPUT_OVERFLOW) {
+          this.emit('api:overflow')
+        }
+
+        if (status & RtAudioStreamStatus.RTAUDIO_OUTPUT_UNDERFLOW) {
+          this.emit('api:underflow')
+        }
+
+        this._playOutput(output)
+        this._captureInput(input)
+
+        return 0
+      }
+    )
+
+    this._rtAudio.startStream()
+  }
+
+  /** Get the latency */
+  get latency(): number { return this._rtAudio.getStreamLatency() }
+
+  /** Get the actual sample rate.
+   * On some systems, the sample rate used may be slightly different
+   * than that specified in the stream parameters. If a stream is not
+   * open, a value of zero is returned.
+   */
+  get getTrueSampleRate(): number { return this._rtAudio.getStreamSampleRate() }
+
+  /** Get the time passed since the stream has started */
+  get time(): number { return this._rtAudio.getStreamTime() }
+
+  get isAudioPaused(): boolean { return !this._rtAudio.isStreamRunning() }
+
+  /** Get the number of bytes queued for playback */
+  get bufferLength(): number { return this._outputBuffer.length }
+
+  /** Get the number of bytes that can be queued for playback */
+  get bufferCapacity(): number { return this._outputBuffer.capacity }
+
+  /** Enable warnings, which will be provided through the 'warning' event */
+  enableWarnings(): void {
+    this._rtAudio.showWarnings(true)
+  }
+
+  /** Disable warnings */
+  disableWarnings(): void {
+    this._rtAudio.showWarnings(false)
+  }
+
+  /** Stop capturing, the readable side ends after the buffered chunks are consumed */
+  stopAudio() {
+    this._shouldStop = true
+  }
+
+  resumeAudio() {
+    if (!this._rtAudio.isStreamRunning()) {
+      this._inputBuffer = []
+      this._shouldClearBuffer = true
+      this._rtAudio.startStream()
+    }
+
+    return this
+  }
+
+  pauseAudio() {
+    if (this._rtAudio.isStreamRunning()) {
+      this._rtAudio.abortStream()
+    }
+
+    return this
+  }
+
+  /** Play the next chunk, or the last partial one padded with silence once the writable side is ended */
+  private _playOutput(output: Uint8Array) {
+    const queued = this._outputBuffer.length
+
+    if (queued >= this._outputChunkSize || (queued > 0 && this._outputEnded)) {
+      const read = this._outputBuffer.read(output, 0, this._outputChunkSize)
+      padBlock(output.subarray(0, this._outputChunkSize), read, this._outputChannels, this._byteCount, this._nonInterleaved)
+      this._fillOutputBuffer()
+      this.emit('api:processed')
+      return
+    }
+
+    output.fill(0)
+
+    if (this._finalCallback) {
+      const finalCallback = this._finalCallback
+      this._finalCallback = null
+      finalCallback()
+    }
+  }
+
+  /** Move the pending chunks into the ring buffer, and acknowledge the write once all of them fit */
+  private _fillOutputBuffer() {
+    if (!this._pendingOutput) {
+      return
+    }
+
+    const { chunks, callback } = this._pendingOutput
+
+    while (chunks.length > 0) {
+      const written = this._outputBuffer.write(chunks[0])
+
+      if (written < chunks[0].byteLength) {
+        chunks[0] = chunks[0].subarray(written)
+        return
+      }
+
+      chunks.shift()
+    }
+
+    this._pendingOutput = null
+    callback()
+  }
+
+  private _captureInput(input: Uint8Array) {
+    if (this._shouldClearBuffer) {
+      this._shouldClearBuffer = false
+      this._inputBuffer = []
+      return
+    }
+
+    if (this.readableEnded) {
+      return
+    }
+
+    if (this._shouldStop) {
+      if (this._shouldBuffer) {
+        if (this._inputBuffer.length === 0) {
+          this.push(null)
+          return
+        }
+
+        this._inputBuffer.push(null)
+        return
+      }
+
+      let bufferHead = this._inputBuffer.shift()
+
+      if (bufferHead === undefined) {
+        this.push(null)
+        return
+      }
+
+      if (!this.push(bufferHead)) {
+        this._shouldBuffer = true
+      }
+
+      return
+    }
+
+    if (this._shouldBuffer) {
+      this._inputBuffer.push(input)
+      return
+    }
+
+    let bufferHead = this._inputBuffer.shift()
+
+    if (bufferHead === undefined) {
+      if (!this.push(input)) {
+        this._shouldBuffer = true
+      }
+      return
+    }
+
+    this._inputBuffer.push(input)
+
+    if (!this.push(bufferHead)) {
+      this._shouldBuffer = true
+    }
+  }
+
+  /** @ignore */
+  resume(): this {
+    super.resume()
+    this._shouldBuffer = false
+    return this
+  }
+
+  /** @ignore */
+  pause(): this {
+    super.pause()
+    this._shouldBuffer = true
+    return this
+  }
+
+  /** @private */
+  _read(_size: number): void {
+    this._shouldBuffer = false
+  }
+
+  /** @private */
+  _write(chunk: Uint8Array, _encoding: BufferEncoding, callback: () => void): void {
+    if (!isUint8Array(chunk)) {
+      throw new TypeError('chunk should be an instance of Uint8Array')
+    }
+
+    if (!this._rtAudio.isStreamRunning() || this._outputEnded) {
+      callback()
+      return
+    }
+
+    this._pendingOutput = { chunks: [chunk], callback }
+    this._fillOutputBuffer()
+  }
+
+  /** @private */
+  _writev(chunks: { chunk: Uint8Array }[], callback: (error?: Error | null | undefined) => void): void {
+    if (chunks.find(({ chunk }) => !isUint8Array(chunk))) {
+      throw new TypeError('each chunk should be an instance of Uint8Array')
+    }
+
+    if (!this._rtAudio.isStreamRunning() || this._outputEnded) {
+      callback()
+      return
+    }
+
+    this._pendingOutput = { chunks: chunks.map(({ chunk }) => chunk), callback }
+    this._fillOutputBuffer()
+  }
+
+  /** @private */
+  _final(callback: (error?: Error | null | undefined) => void): void {
+    this._outputEnded = true
+
+    if (this._outputBuffer.length > 0 && this._rtAudio.isStreamRunning()) {
+      this._finalCallback = callback
+    } else {
+      callback()
+    }
+  }
+
+  /** @private */
+  _destroy(error: Error | null, callback: (error?: Error | null | undefined) => void): void {
+    if (this._rtAudio.isStreamOpen()) {
+      this._rtAudio.closeStream()
+    }
+    callback(error)
+  }
+
+  /** @ignore */
+  on(event: 'close', listener: () => void): this
+  /** @ignore */
+  on(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  on(event: 'drain', listener: () => void): this
+  /** @ignore */
+  on(event: 'end', listener: () => void): this
+  /** @ignore */
+  on(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  on(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
+  on(event: 'finish', listener: () => void): this
+  /** @ignore */
+  on(event: 'pause', listener: () => void): this
+  /** @ignore */
+  on(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'readable', listener: () => void): this
+  /** @ignore */
+  on(event: 'resume', listener: () => void): this
+  /** @ignore */
+  on(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'api:overflow', listener: () => void): this
+  /** @ignore */
+  on(event: 'api:underflow', listener: () => void): this
+  /** @ignore */
+  on(event: 'api:processed', listener: () => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  addListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  addListener(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
+  addListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'api:overflow', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'api:underflow', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'api:processed', listener: () => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'close', listener: () => void): this
+  /** @ignore */
+  once(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  once(event: 'drain', listener: () => void): this
+  /** @ignore */
+  once(event: 'end', listener: () => void): this
+  /** @ignore */
+  once(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  once(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
+  once(event: 'finish', listener: () => void): this
+  /** @ignore */
+  once(event: 'pause', listener: () => void): this
+  /** @ignore */
+  once(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'readable', listener: () => void): this
+  /** @ignore */
+  once(event: 'resume', listener: () => void): this
+  /** @ignore */
+  once(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'api:overflow', listener: () => void): this
+  /** @ignore */
+  once(event: 'api:underflow', listener: () => void): this
+  /** @ignore */
+  once(event: 'api:processed', listener: () => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  removeListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  removeListener(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
+  removeListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'api:overflow', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'api:underflow', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'api:processed', listener: () => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'close'): boolean
+  /** @ignore */
+  emit(event: 'data', chunk: any): boolean
+  /** @ignore */
+  emit(event: 'drain'): boolean
+  /** @ignore */
+  emit(event: 'end'): boolean
+  /** @ignore */
+  emit(event: 'error', err: Error): boolean
+  /** @ignore */
+  emit(event: 'warning', warning: SonanceWarning): boolean
+  /** @ignore */
+  emit(event: 'finish'): boolean
+  /** @ignore */
+  emit(event: 'pause'): boolean
+  /** @ignore */
+  emit(event: 'pipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'readable'): boolean
+  /** @ignore */
+  emit(event: 'resume'): boolean
+  /** @ignore */
+  emit(event: 'unpipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'api:overflow'): boolean
+  /** @ignore */
+  emit(event: 'api:underflow'): boolean
+  /** @ignore */
+  emit(event: 'api:processed'): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+
+}
@@ -0,0 +1,95 @@
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { rtAudioFormatToByteCount } from './common'
+
+/** A typed array matching one of the sample formats */
+export type SampleArray = Int8Array | Int16Array | Int32Array | Float32Array | Float64Array
+
+/**
+ * A chunk of captured audio along with the timing the device reported for it, delivered by
+ * {@link AudioInputStream | `AudioInputStream`} when {@link AudioIOParams | `params.objectMode`} is set
+ */
+export type AudioFrame = {
+  /** the audio data, as it would be delivered without the object mode */
+  data: Uint8Array
+
+  /** the index of the first frame of the chunk since the stream has started, including the frames lost to overflows */
+  frameIndex: number
+
+  /** the number of frames in the chunk */
+  frames: number
+
+  /** the stream time of the first frame, in seconds */
+  time: number
+
+  /** whether the device reported an overflow, i.e. some audio was lost before this chunk */
+  overflow: boolean
+
+  /** the number of frames lost right before this chunk, 0 without an overflow, see the `gap` event */
+  lostFrames: number | null
+
+  /**
+   * the samples of each channel. They are views over `data` if the channels are non-interleaved, otherwise
+   * they are copies.
+   */
+  channels: SampleArray[]
+}
+
+/** The payload of the `gap` event of {@link AudioInputStream | `AudioInputStream`} */
+export type AudioGap = {
+  /** the index of the first frame after the gap */
+  frameIndex: number
+
+  /** the stream time of the first frame after the gap, in seconds */
+  time: number
+
+  /**
+   * the number of frames lost, derived from how far the stream time jumped past the time expected after the previous
+   * chunk, at the actual sample rate. It is `null` if the audio API didn't advance the stream time through the
+   * overflow, in which case the number is unknown and the frame index doesn't account for the lost frames.
+   */
+  lostFrames: number | null
+}
+
+const createSampleArray = (format: RtAudioFormat, buffer: ArrayBufferLike, byteOffset: number, length: number): SampleArray => {
+  switch (format) {
+    case RtAudioFormat.RTAUDIO_SINT8: return new Int8Array(buffer, byteOffset, length)
+    case RtAudioFormat.RTAUDIO_SINT16: return new Int16Array(buffer, byteOffset, length)
+    case RtAudioFormat.RTAUDIO_SINT32: return new Int32Array(buffer, byteOffset, length)
+    case RtAudioFormat.RTAUDIO_FLOAT32: return new Float32Array(buffer, byteOffset, length)
+    case RtAudioFormat.RTAUDIO_FLOAT64: return new Float64Array(buffer, byteOffset, length)
+  }
+  throw new TypeError(`unsupported format: ${format}`)
+}
+
+/**
+ * Get the samples of each channel of a chunk as typed arrays in the host byte order
+ *
+ * @param data the audio data, which should consist of whole frames
+ * @param format the format of the samples
+ * @param channels the number of channels
+ * @param nonInterleaved whether the channels are back-to-back, in which case the arrays are views over `data`
+ */
+export const getChannelArrays = (data: Uint8Array, format: RtAudioFormat, channels: number, nonInterleaved: boolean): SampleArray[] => {
+  const byteCount = rtAudioFormatToByteCount(format)
+  const frames = Math.floor(data.byteLength / (channels * byteCount))
+  const arrays: SampleArray[] = []
+
+  if (nonInterleaved && data.byteOffset % byteCount === 0) {
+    for (let channel = 0; channel < channels; channel++) {
+      arrays.push(createSampleArray(format, data.buffer, data.byteOffset + channel * frames * byteCount, frames))
+    }
+    return arrays
+  }
+
+  const samples = createSampleArray(format, data.slice(0, frames * channels * byteCount).buffer, 0, frames * channels)
+
+  for (let channel = 0; channel < channels; channel++) {
+    const array = createSampleArray(format, new ArrayBuffer(frames * byteCount), 0, frames)
+    for (let frame = 0; frame < frames; frame++) {
+      array[frame] = nonInterleaved ? samples[channel * frames + frame] : samples[frame * channels + channel]
+    }
+    arrays.push(array)
+  }
+
+  return arrays
+}
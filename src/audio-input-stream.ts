@@ -1,7 +1,13 @@
 import { Readable } from 'stream'
-import { RtAudio, RtAudioErrorType, RtAudioFormat, RtAudioStreamStatus } from '@hamitzor/rtaudio.js'
-import { rtAudioFormatToByteCount, getReadableErrorMessage } from './common'
-import { AudioIOParams } from './types'
+import { DeviceInfo, RtAudioApi, RtAudioErrorType, RtAudioFormat, RtAudioStreamStatus } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, rtAudioFormatToByteCount } from './common'
+import { AudioIOParams, ReconfigurableParams } from './types'
+import { AudioBackend, rtAudioBackend } from './backend'
+import { LevelInfo, LevelMeter } from './level-meter'
+import { DeviceFailover, FailoverEvent, isDeviceError } from './failover'
+import { assertSupportedParams } from './negotiate'
+import { createError, InvalidUseError, SonanceError, SonanceWarning } from './errors'
+import { AudioFrame, AudioGap, getChannelArrays } from './audio-frame'
 
 /**
  * Class that represents an audio input stream. It is used to stream audio from an input device,
@@ -111,16 +117,41 @@ import { AudioIOParams } from './types'
  * `highWaterMark` for the {@link AudioInputStream | `AudioInputStream`} instance can be specified during instantiation through 
  * {@link AudioIOParams | `params.highWaterMark`}.
  * 
+ * If {@link AudioIOParams | `params.meterInterval`} is given, the levels of the captured audio are measured and
+ * a `level` event is emitted with a {@link LevelInfo} at that interval.
+ * 
+ * If {@link AudioIOParams | `params.objectMode`} is set, the stream delivers an {@link AudioFrame} for each chunk,
+ * which carries the frame index, the stream time, the overflow flag and the samples of each channel as typed arrays
+ * along with the audio data. Whether the object mode is set or not, a `gap` event is emitted with an {@link AudioGap}
+ * when the device reports an overflow, with the number of frames that were lost if the stream time tells it.
+ * 
+ * If {@link AudioIOParams | `params.failover`} is given, the stream is reopened on another device when its device
+ * is removed or fails, see {@link FailoverParams}. The stream goes on delivering audio from the new device, and
+ * a `failover` event is emitted with a {@link FailoverEvent} on each switch.
+ * 
+ * The capturing can be controlled with {@link start} and {@link stop}, which return promises, and the stream can be
+ * moved to another device, buffer size or audio API with {@link reconfigure}, without ending the stream. An error the
+ * device reports while one of these operations runs rejects the promise, instead of being emitted with an `error` event.
+ * 
  * See {@link https://github.com/hamitzor/sonance.js-examples | sonance.js Examples repo} for some example apps
  * that use {@link AudioInputStream | `AudioInputStream`}.
  * 
  */
 export class AudioInputStream extends Readable {
-  private _rtAudio: RtAudio
-  private _buffer: (Uint8Array | null)[]
+  private _rtAudio: AudioBackend
+  private _buffer: (Uint8Array | AudioFrame | null)[]
   private _shouldBuffer: boolean
   private _shouldStop: boolean
   private _shouldClearBuffer: boolean
+  private _meter: LevelMeter | null
+  private _params: AudioIOParams
+  private _failover: DeviceFailover | null
+  private _deviceId: number
+  private _capturedErrors: SonanceError[] | null
+  private _objectMode: boolean
+  private _nonInterleaved: boolean
+  private _nextFrameIndex: number
+  private _expectedTime: number | null
 
   /**
    * Create an audio input stream
@@ -129,32 +160,269 @@ export class AudioInputStream extends Readable {
    */
   constructor(params: AudioIOParams) {
     const highWaterMark = params.bufferFrames * params.channels * rtAudioFormatToByteCount(params.format || RtAudioFormat.RTAUDIO_SINT16)
-    super({ highWaterMark: highWaterMark, emitClose: true })
+    super({ objectMode: params.objectMode, highWaterMark: params.objectMode ? 1 : highWaterMark, emitClose: true })
 
-    this._rtAudio = params.api ? new RtAudio(params.api) : new RtAudio()
+    this._params = params
+    this._capturedErrors = null
+    this._rtAudio = this._createBackend(params.api)
+    if (params.strict) {
+      assertSupportedParams(this._rtAudio, params.deviceId, params, 'input')
+    }
     this._buffer = []
     this._shouldBuffer = true
     this._shouldStop = false
     this._shouldClearBuffer = false
+    this._meter = params.meterInterval ? new LevelMeter(params, params.meterInterval) : null
+    this._objectMode = params.objectMode || false
+    this._nonInterleaved = isNonInterleaved(params.options)
+    this._nextFrameIndex = 0
+    this._expectedTime = null
+    this._failover = this._createFailover(params)
+    this._deviceId = params.deviceId
+
+    this._open(params.deviceId)
+
+    if (!this._rtAudio.isStreamRunning() && !this._isDeviceLost()) {
+      this._rtAudio.startStream()
+    }
+  }
+
+  /** Get the latency */
+  get latency(): number { return this._rtAudio.getStreamLatency() }
+
+  /** Get the actual sample rate.
+   * On some systems, the sample rate used may be slightly different
+   * than that specified in the stream parameters. If a stream is not
+   * open, a value of zero is returned.
+   */
+  get getTrueSampleRate(): number { return this._rtAudio.getStreamSampleRate() }
+
+  /** Get the time passed since the stream has started */
+  get time(): number { return this._rtAudio.getStreamTime() }
+
+  /** Get the parameters of the stream, including the changes made with {@link reconfigure} */
+  get params(): Readonly<AudioIOParams> { return this._params }
+
+  get isAudioPaused(): boolean { return !this._rtAudio.isStreamRunning() }
+
+  /** Enable warnings, which will be provided through the 'warning' event */
+  enableWarnings(): void {
+    this._rtAudio.showWarnings(true)
+  }
+
+  /** Disable warnings */
+  disableWarnings(): void {
+    this._rtAudio.showWarnings(false)
+  }
+
+  stopAudio() {
+    this._shouldStop = true
+  }
+
+  resumeAudio() {
+    if (!this._rtAudio.isStreamRunning()) {
+      this._buffer = []
+      this._shouldClearBuffer = true
+      this._rtAudio.startStream()
+    }
+
+    return this
+  }
+
+  pauseAudio() {
+    if (this._rtAudio.isStreamRunning()) {
+      this._rtAudio.abortStream()
+    }
+
+    return this
+  }
+
+  /**
+   * Start capturing, or resume after {@link stop} or {@link pauseAudio}. Like {@link resumeAudio}, the audio buffered
+   * before is dropped.
+   *
+   * @returns a promise that resolves once the device is running, or rejects with the error it reports
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.destroyed) {
+        reject(this._createInvalidUseError('the stream is destroyed'))
+        return
+      }
+
+      const error = this._isDeviceLost() ? null : this._capture(() => this.resumeAudio())
+
+      if (error) {
+        reject(error)
+        return
+      }
+
+      resolve()
+    })
+  }
+
+  /**
+   * Stop capturing without ending the stream, like {@link pauseAudio}. Use {@link stopAudio} to end the stream.
+   *
+   * @returns a promise that resolves once the device is stopped, or rejects with the error it reports
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const error = this._capture(() => this.pauseAudio())
+
+      if (error) {
+        reject(error)
+        return
+      }
+
+      resolve()
+    })
+  }
+
+  /**
+   * Close the device and open it again with other parameters, keeping the audio not read yet. The stream goes on
+   * capturing if it was capturing. If the device can't be opened with the new parameters, the previous ones are restored.
+   *
+   * @param params the parameters to change
+   * @returns a promise that resolves once the device is reopened, or rejects with the error it reports
+   */
+  reconfigure(params: ReconfigurableParams): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.destroyed) {
+        reject(this._createInvalidUseError('the stream is destroyed'))
+        return
+      }
+
+      const previous = { params: this._params, rtAudio: this._rtAudio }
+      const next: AudioIOParams = { ...this._params, ...params }
+      const rtAudio = next.api !== this._params.api ? this._createBackend(next.api) : this._rtAudio
+
+      if (next.strict) {
+        assertSupportedParams(rtAudio, next.deviceId, next, 'input')
+      }
+
+      const isRunning = this._rtAudio.isStreamRunning() || this._isDeviceLost()
+
+      if (this._failover) {
+        this._failover.close()
+      }
+
+      if (this._rtAudio.isStreamOpen()) {
+        this._rtAudio.closeStream()
+      }
+
+      this._rtAudio = rtAudio
+      this._params = next
+
+      const error = this._capture(() => {
+        this._open(next.deviceId)
+        if (this._rtAudio.isStreamOpen() && isRunning) {
+          this._rtAudio.startStream()
+        }
+      })
+
+      if (error) {
+        if (this._rtAudio.isStreamOpen()) {
+          this._rtAudio.closeStream()
+        }
+
+        this._rtAudio = previous.rtAudio
+        this._params = previous.params
+        this._open(previous.params.deviceId)
+        if (isRunning) {
+          this._rtAudio.startStream()
+        }
+      }
+
+      this._failover = this._createFailover(this._params)
+
+      if (error) {
+        reject(error)
+        return
+      }
+
+      resolve()
+    })
+  }
+
+  /** @ignore */
+  resume(): this {
+    super.resume()
+    this._shouldBuffer = false
+    return this
+  }
+
+  /** @ignore */
+  pause(): this {
+    super.pause()
+    this._shouldBuffer = true
+    return this
+  }
+
+  /** Whether the device is lost with failover enabled */
+  private _isDeviceLost() {
+    return this._failover !== null && this._failover.isLost
+  }
 
-    this._rtAudio.setErrorCallback((type, message) => {
-      if (type > RtAudioErrorType.DEBUG_WARNING) {
-        this.emit('error', new Error(getReadableErrorMessage(type, message)))
+  /** Create the backend for the given API, routing the errors it reports to the stream */
+  private _createBackend(api: RtAudioApi | undefined) {
+    const rtAudio = (this._params.backend || rtAudioBackend)(api)
+
+    rtAudio.setErrorCallback((type, message) => {
+      const error = createError(type, message, this._deviceId, api)
+
+      if (error instanceof SonanceWarning) {
+        this.emit('warning', error)
+      } else if (this._capturedErrors) {
+        this._capturedErrors.push(error)
+      } else if (this._failover && isDeviceError(type)) {
+        this._failover.fail()
+      } else {
+        this.emit('error', error)
       }
     })
 
+    return rtAudio
+  }
+
+  private _createFailover(params: AudioIOParams) {
+    return params.failover
+      ? new DeviceFailover('input', params, device => this._reopen(device), event => this.emit('failover', event))
+      : null
+  }
+
+  private _createInvalidUseError(message: string) {
+    return new InvalidUseError(message, { type: RtAudioErrorType.INVALID_USE, deviceId: this._deviceId, api: this._params.api })
+  }
+
+  /** Run an operation on the backend, returning the first error it reports instead of emitting it */
+  private _capture(operation: () => void) {
+    this._capturedErrors = []
+
+    try {
+      operation()
+      return this._capturedErrors[0] || null
+    } finally {
+      this._capturedErrors = null
+    }
+  }
+
+  /** Open the stream on the given device */
+  private _open(deviceId: number) {
+    this._deviceId = deviceId
+    this._expectedTime = null
     this._rtAudio.openStream(
       null,
       {
-        deviceId: params.deviceId,
-        nChannels: params.channels,
-        firstChannel: params.firstChannel
+        deviceId: deviceId,
+        nChannels: this._params.channels,
+        firstChannel: this._params.firstChannel
       },
-      params.format || RtAudioFormat.RTAUDIO_SINT16,
-      params.sampleRate,
-      params.bufferFrames,
-      params.options || null,
-      (_output, input, _nFrame, _streamTime, status) => {
+      this._params.format || RtAudioFormat.RTAUDIO_SINT16,
+      this._params.sampleRate,
+      this._params.bufferFrames,
+      this._params.options || null,
+      (_output, input, nFrame, streamTime, status) => {
         if (this._shouldClearBuffer) {
           this._shouldClearBuffer = false
           this._buffer = []
@@ -165,10 +433,21 @@ export class AudioInputStream extends Readable {
           return 0
         }
 
-        if (status === RtAudioStreamStatus.RTAUDIO_INPUT_OVERFLOW) {
+        const overflow = status === RtAudioStreamStatus.RTAUDIO_INPUT_OVERFLOW
+
+        if (overflow) {
           this.emit('api:overflow')
         }
 
+        const chunk = this._advance(input, nFrame, streamTime, overflow)
+
+        if (this._meter) {
+          const level = this._meter.process(input)
+          if (level) {
+            this.emit('level', level)
+          }
+        }
+
         if (this._shouldStop) {
           if (this._shouldBuffer) {
             if (this._buffer.length === 0) {
@@ -195,20 +474,20 @@ export class AudioInputStream extends Readable {
         }
 
         if (this._shouldBuffer) {
-          this._buffer.push(input)
+          this._buffer.push(chunk)
           return 0
         }
 
         let bufferHead = this._buffer.shift()
 
         if (bufferHead === undefined) {
-          if (!this.push(input)) {
+          if (!this.push(chunk)) {
             this._shouldBuffer = true
           }
           return 0
         }
 
-        this._buffer.push(input)
+        this._buffer.push(chunk)
 
         if (!this.push(bufferHead)) {
           this._shouldBuffer = true
@@ -216,69 +495,59 @@ export class AudioInputStream extends Readable {
         }
       }
     )
-
-    this._rtAudio.startStream()
   }
 
-  /** Get the latency */
-  get latency(): number { return this._rtAudio.getStreamLatency() }
-
-  /** Get the actual sample rate.
-   * On some systems, the sample rate used may be slightly different
-   * than that specified in the stream parameters. If a stream is not
-   * open, a value of zero is returned.
+  /**
+   * Advance the frame index past a captured chunk, emitting a `gap` event after an overflow
+   *
+   * @returns the chunk to deliver, an {@link AudioFrame} in object mode
    */
-  get getTrueSampleRate(): number { return this._rtAudio.getStreamSampleRate() }
+  private _advance(input: Uint8Array, frames: number, time: number, overflow: boolean): Uint8Array | AudioFrame {
+    const sampleRate = this._rtAudio.getStreamSampleRate() || this._params.sampleRate
+    const skippedFrames = overflow && this._expectedTime !== null ? Math.round((time - this._expectedTime) * sampleRate) : 0
+    const lostFrames = !overflow ? 0 : skippedFrames > 0 ? skippedFrames : null
+    const frameIndex = this._nextFrameIndex + (lostFrames || 0)
 
-  /** Get the time passed since the stream has started */
-  get time(): number { return this._rtAudio.getStreamTime() }
-
-  get isAudioPaused(): boolean { return !this._rtAudio.isStreamRunning() }
+    this._nextFrameIndex = frameIndex + frames
+    this._expectedTime = time + frames / sampleRate
 
-  /** Enable warnings, which will be provided through the 'error' event */
-  enableWarnings(): void {
-    this._rtAudio.showWarnings(true)
-  }
+    if (overflow) {
+      this.emit('gap', { frameIndex, time, lostFrames })
+    }
 
-  /** Disable warnings */
-  disableWarnings(): void {
-    this._rtAudio.showWarnings(false)
-  }
+    if (!this._objectMode) {
+      return input
+    }
 
-  stopAudio() {
-    this._shouldStop = true
+    return {
+      data: input,
+      frameIndex,
+      frames,
+      time,
+      overflow,
+      lostFrames,
+      channels: getChannelArrays(input, this._params.format || RtAudioFormat.RTAUDIO_SINT16, this._params.channels, this._nonInterleaved)
+    }
   }
 
-  resumeAudio() {
-    if (!this._rtAudio.isStreamRunning()) {
-      this._buffer = []
-      this._shouldClearBuffer = true
-      this._rtAudio.startStream()
+  /** Reopen the stream on another device, keeping the buffered audio, or only close it if there is none */
+  private _reopen(device: DeviceInfo | null) {
+    if (this._rtAudio.isStreamOpen()) {
+      this._rtAudio.closeStream()
     }
 
-    return this
-  }
-
-  pauseAudio() {
-    if (this._rtAudio.isStreamRunning()) {
-      this._rtAudio.abortStream()
+    if (!device) {
+      return false
     }
 
-    return this
-  }
+    this._open(device.id)
 
-  /** @ignore */
-  resume(): this {
-    super.resume()
-    this._shouldBuffer = false
-    return this
-  }
+    if (!this._rtAudio.isStreamOpen()) {
+      return false
+    }
 
-  /** @ignore */
-  pause(): this {
-    super.pause()
-    this._shouldBuffer = true
-    return this
+    this._rtAudio.startStream()
+    return true
   }
 
   /** @private */
@@ -288,6 +557,9 @@ export class AudioInputStream extends Readable {
 
   /** @private */
   _destroy(error: Error | null, callback: (error?: Error | null | undefined) => void): void {
+    if (this._failover) {
+      this._failover.close()
+    }
     if (this._rtAudio.isStreamOpen()) {
       this._rtAudio.closeStream()
     }
@@ -303,6 +575,8 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   on(event: 'error', listener: (err: Error) => void): this
   /** @ignore */
+  on(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
   on(event: 'pause', listener: () => void): this
   /** @ignore */
   on(event: 'readable', listener: () => void): this
@@ -311,6 +585,12 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   on(event: 'api:overflow', listener: () => void): this
   /** @ignore */
+  on(event: 'level', listener: (level: LevelInfo) => void): this
+  /** @ignore */
+  on(event: 'gap', listener: (gap: AudioGap) => void): this
+  /** @ignore */
+  on(event: 'failover', listener: (failover: FailoverEvent) => void): this
+  /** @ignore */
   on(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.on(event, listener)
   }
@@ -324,6 +604,8 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   addListener(event: 'error', listener: (err: Error) => void): this
   /** @ignore */
+  addListener(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
   addListener(event: 'pause', listener: () => void): this
   /** @ignore */
   addListener(event: 'readable', listener: () => void): this
@@ -332,6 +614,12 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   addListener(event: 'api:overflow', listener: () => void): this
   /** @ignore */
+  addListener(event: 'level', listener: (level: LevelInfo) => void): this
+  /** @ignore */
+  addListener(event: 'gap', listener: (gap: AudioGap) => void): this
+  /** @ignore */
+  addListener(event: 'failover', listener: (failover: FailoverEvent) => void): this
+  /** @ignore */
   addListener(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.addListener(event, listener)
   }
@@ -345,6 +633,8 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   once(event: 'error', listener: (err: Error) => void): this
   /** @ignore */
+  once(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
   once(event: 'pause', listener: () => void): this
   /** @ignore */
   once(event: 'readable', listener: () => void): this
@@ -353,6 +643,12 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   once(event: 'api:overflow', listener: () => void): this
   /** @ignore */
+  once(event: 'level', listener: (level: LevelInfo) => void): this
+  /** @ignore */
+  once(event: 'gap', listener: (gap: AudioGap) => void): this
+  /** @ignore */
+  once(event: 'failover', listener: (failover: FailoverEvent) => void): this
+  /** @ignore */
   once(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.once(event, listener)
   }
@@ -366,6 +662,8 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   removeListener(event: 'error', listener: (err: Error) => void): this
   /** @ignore */
+  removeListener(event: 'warning', listener: (warning: SonanceWarning) => void): this
+  /** @ignore */
   removeListener(event: 'pause', listener: () => void): this
   /** @ignore */
   removeListener(event: 'readable', listener: () => void): this
@@ -374,6 +672,12 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   removeListener(event: 'api:overflow', listener: () => void): this
   /** @ignore */
+  removeListener(event: 'level', listener: (level: LevelInfo) => void): this
+  /** @ignore */
+  removeListener(event: 'gap', listener: (gap: AudioGap) => void): this
+  /** @ignore */
+  removeListener(event: 'failover', listener: (failover: FailoverEvent) => void): this
+  /** @ignore */
   removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.removeListener(event, listener)
   }
@@ -387,6 +691,8 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   emit(event: 'error', err: Error): boolean
   /** @ignore */
+  emit(event: 'warning', warning: SonanceWarning): boolean
+  /** @ignore */
   emit(event: 'pause'): boolean
   /** @ignore */
   emit(event: 'readable'): boolean
@@ -395,6 +701,12 @@ export class AudioInputStream extends Readable {
   /** @ignore */
   emit(event: 'api:overflow'): boolean
   /** @ignore */
+  emit(event: 'level', level: LevelInfo): boolean
+  /** @ignore */
+  emit(event: 'gap', gap: AudioGap): boolean
+  /** @ignore */
+  emit(event: 'failover', failover: FailoverEvent): boolean
+  /** @ignore */
   emit(event: string | symbol, ...args: any[]): boolean {
     return super.emit(event, ...args)
   }
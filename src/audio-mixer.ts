@@ -0,0 +1,385 @@
+import { Writable } from 'stream'
+import { isUint8Array } from 'util/types'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, padBlock, rtAudioFormatToByteCount } from './common'
+import { decodeChunk, encodeChunk } from './samples'
+import { RingBuffer } from './ring-buffer'
+import { AudioOutputStream } from './audio-output-stream'
+import { AudioIOParams } from './types'
+
+export type AudioMixerOptions = {
+  /** smoothly reduce the gain when the sum exceeds full scale, instead of only clipping it (default=true) */
+  limiter?: boolean
+
+  /** how long the limiter takes to recover from a gain reduction, in milliseconds (default=100) */
+  release?: number
+}
+
+export type AudioMixerInputOptions = {
+  /** the gain in dB (default=0) */
+  gain?: number
+
+  /** the balance between the first two channels, from -1 (left) to 1 (right) (default=0) */
+  pan?: number
+
+  /** whether the input starts muted (default=false) */
+  muted?: boolean
+
+  /** the number of bytes the input queues before applying backpressure (default=a single chunk) */
+  highWaterMark?: number
+}
+
+/**
+ * An input of an {@link AudioMixer}, created with {@link AudioMixer.createInput | `mixer.createInput`}. The written
+ * chunks should have the format, channel count and layout of the mixer.
+ */
+export class AudioMixerInput extends Writable {
+  private _chunkSize: number
+  private _buffer: RingBuffer
+  private _pending: { chunks: Uint8Array[], callback: (error?: Error | null | undefined) => void } | null
+  private _finalCallback: ((error?: Error | null | undefined) => void) | null
+  private _volume: number
+  private _pan: number
+  private _muted: boolean
+
+  /**
+   * Create a mixer input, use {@link AudioMixer.createInput | `mixer.createInput`} instead
+   *
+   * @param chunkSize the size of the chunks the mixer consumes
+   * @param options options for the input
+   */
+  constructor(chunkSize: number, options: AudioMixerInputOptions = {}) {
+    const highWaterMark = options.highWaterMark || chunkSize
+    super({ highWaterMark: highWaterMark, emitClose: true })
+
+    this._chunkSize = chunkSize
+    this._buffer = new RingBuffer(Math.max(highWaterMark, chunkSize))
+    this._pending = null
+    this._finalCallback = null
+    this._volume = Math.pow(10, (options.gain || 0) / 20)
+    this._pan = options.pan || 0
+    this._muted = options.muted || false
+  }
+
+  /** Get the gain in dB */
+  get gain(): number { return 20 * Math.log(this._volume) / Math.LN10 }
+
+  /** Get the balance between the first two channels */
+  get pan(): number { return this._pan }
+
+  /** Whether the input is muted */
+  get muted(): boolean { return this._muted }
+
+  /** Get the number of bytes queued for mixing */
+  get bufferLength(): number { return this._buffer.length }
+
+  /**
+   * Set the gain, ramped over a chunk
+   *
+   * @param db the gain in dB, 0 for unity gain, `-Infinity` for silence
+   */
+  setGain(db: number): void {
+    this._volume = Math.pow(10, db / 20)
+  }
+
+  /**
+   * Set the balance between the first two channels, ramped over a chunk. The other side is attenuated
+   * with an equal-power law, the panned side keeps its level.
+   *
+   * @param pan the balance, from -1 (left) to 1 (right), 0 for center
+   */
+  setPan(pan: number): void {
+    this._pan = Math.max(-1, Math.min(1, pan))
+  }
+
+  /** Silence the input, ramped over a chunk */
+  mute(): void {
+    this._muted = true
+  }
+
+  /** Restore the input after {@link mute}, ramped over a chunk */
+  unmute(): void {
+    this._muted = false
+  }
+
+  /**
+   * Compute the gain of a channel from the gain, pan and mute settings
+   *
+   * @private
+   */
+  _channelGain(channel: number, channels: number): number {
+    if (this._muted) {
+      return 0
+    }
+    if (channels >= 2 && channel === 0 && this._pan > 0) {
+      return this._volume * Math.cos(this._pan * Math.PI / 2)
+    }
+    if (channels >= 2 && channel === 1 && this._pan < 0) {
+      return this._volume * Math.cos(-this._pan * Math.PI / 2)
+    }
+    return this._volume
+  }
+
+  /**
+   * Take the next chunk to mix, `null` if the input is starved. A partial chunk is only taken once the input
+   * is ending, after which the write is finished.
+   *
+   * @private
+   */
+  _take(): Uint8Array | null {
+    const queued = this._buffer.length
+
+    if (queued < this._chunkSize && this._finalCallback === null) {
+      return null
+    }
+
+    const chunk = new Uint8Array(Math.min(queued, this._chunkSize))
+    this._buffer.read(chunk)
+    this._fillBuffer()
+
+    if (this._finalCallback && this._buffer.length === 0) {
+      const finalCallback = this._finalCallback
+      this._finalCallback = null
+      finalCallback()
+    }
+
+    return chunk.byteLength > 0 ? chunk : null
+  }
+
+  _write(chunk: Uint8Array, _encoding: BufferEncoding, callback: () => void): void {
+    if (!isUint8Array(chunk)) {
+      throw new TypeError('chunk should be an instance of Uint8Array')
+    }
+
+    this._pending = { chunks: [chunk], callback }
+    this._fillBuffer()
+  }
+
+  _writev(chunks: { chunk: Uint8Array }[], callback: (error?: Error | null | undefined) => void): void {
+    if (chunks.find(({ chunk }) => !isUint8Array(chunk))) {
+      throw new TypeError('each chunk should be an instance of Uint8Array')
+    }
+
+    this._pending = { chunks: chunks.map(({ chunk }) => chunk), callback }
+    this._fillBuffer()
+  }
+
+  _final(callback: (error?: Error | null | undefined) => void): void {
+    if (this._buffer.length > 0) {
+      this._finalCallback = callback
+    } else {
+      callback()
+    }
+  }
+
+  /** Move the pending chunks into the ring buffer, and acknowledge the write once all of them fit */
+  private _fillBuffer() {
+    if (!this._pending) {
+      return
+    }
+
+    const { chunks, callback } = this._pending
+
+    while (chunks.length > 0) {
+      const written = this._buffer.write(chunks[0])
+
+      if (written < chunks[0].byteLength) {
+        chunks[0] = chunks[0].subarray(written)
+        return
+      }
+
+      chunks.shift()
+    }
+
+    this._pending = null
+    callback()
+  }
+}
+
+/**
+ * Class that mixes several sources into a single {@link AudioOutputStream | `AudioOutputStream`}, e.g. to play
+ * notification sounds and speech on top of music, as a device can only be opened once:
+ *
+ * ```javascript
+ * const mixer = new AudioMixer(params)
+ * const music = mixer.createInput({ gain: -12 })
+ * const speech = mixer.createInput({ pan: -0.5 })
+ *
+ * pipeline(musicSource, music)
+ * pipeline(speechSource, speech)
+ * ```
+ *
+ * The output stream is opened with the given {@link AudioIOParams | `params`}, and the inputs take chunks of the
+ * same format, channel count and layout. Each time the output stream has room for a chunk, a chunk of every input
+ * is summed, sample-accurately, with the gain, pan and mute settings of the input applied. Changes to those settings
+ * are ramped over the chunk to avoid zipper noise. An input that has less than a chunk queued contributes silence,
+ * so a starved source never stalls the others.
+ *
+ * The sum is clipped to full scale. With the limiter, which is enabled by default, the gain is reduced instantly
+ * when the sum would clip and recovers over {@link AudioMixerOptions | `options.release`}.
+ *
+ * Ending an input plays its remaining audio, then removes it. {@link end} ends the output stream once all the
+ * inputs have finished.
+ */
+export class AudioMixer {
+  private _output: AudioOutputStream
+  private _inputs: AudioMixerInput[]
+  private _gains: Map<AudioMixerInput, number[]>
+  private _channels: number
+  private _format: RtAudioFormat
+  private _chunkFrames: number
+  private _nonInterleaved: boolean
+  private _limiter: boolean
+  private _release: number
+  private _limiterGain: number
+  private _ending: boolean
+
+  /**
+   * Create an audio mixer, along with its output stream
+   *
+   * @param params parameters for the output stream
+   * @param options options for the mixing
+   */
+  constructor(params: AudioIOParams, options: AudioMixerOptions = {}) {
+    this._output = new AudioOutputStream(params)
+    this._inputs = []
+    this._gains = new Map()
+    this._channels = params.channels
+    this._format = params.format || RtAudioFormat.RTAUDIO_SINT16
+    this._chunkFrames = params.bufferFrames
+    this._nonInterleaved = isNonInterleaved(params.options)
+    this._limiter = options.limiter !== undefined ? options.limiter : true
+    this._release = 1 - Math.exp(-1000 / ((options.release || 100) * params.sampleRate))
+    this._limiterGain = 1
+    this._ending = false
+
+    this._output.on('close', () => this._inputs.slice().forEach(input => input.destroy()))
+    this._mix()
+  }
+
+  /** Get the output stream the mix is played on */
+  get output(): AudioOutputStream { return this._output }
+
+  /** Get the inputs that are being mixed */
+  get inputs(): readonly AudioMixerInput[] { return this._inputs }
+
+  /**
+   * Create an input that is mixed into the output until it is ended or destroyed
+   *
+   * @param options options for the input
+   */
+  createInput(options: AudioMixerInputOptions = {}): AudioMixerInput {
+    if (this._ending) {
+      throw new Error('the mixer is ending')
+    }
+
+    const input = new AudioMixerInput(this._chunkFrames * this._channels * rtAudioFormatToByteCount(this._format), options)
+
+    this._inputs.push(input)
+    input.once('close', () => this._remove(input))
+
+    return input
+  }
+
+  /** End the output stream once all the inputs have finished */
+  end(): void {
+    this._ending = true
+
+    if (this._inputs.length === 0 && !this._output.writableEnded) {
+      this._output.end()
+    }
+  }
+
+  /** Destroy the output stream and all the inputs */
+  destroy(error?: Error): void {
+    this._ending = true
+    this._inputs.slice().forEach(input => input.destroy())
+    this._output.destroy(error)
+  }
+
+  private _remove(input: AudioMixerInput) {
+    this._inputs = this._inputs.filter(other => other !== input)
+    this._gains.delete(input)
+
+    if (this._ending) {
+      this.end()
+    }
+  }
+
+  /** Mix a chunk and write it to the output stream, then mix the next one once the output stream has room */
+  private _mix() {
+    if (this._output.destroyed || this._output.writableEnded) {
+      return
+    }
+
+    const frames = this._chunkFrames
+    const sum: Float64Array[] = []
+
+    for (let channel = 0; channel < this._channels; channel++) {
+      sum.push(new Float64Array(frames))
+    }
+
+    this._inputs.slice().forEach(input => this._add(input, sum))
+
+    this._output.write(encodeChunk(this._limit(sum), this._format, this._nonInterleaved), () => setImmediate(() => this._mix()))
+  }
+
+  /** Add the next chunk of an input to the sum, ramping its gains from the previous chunk */
+  private _add(input: AudioMixerInput, sum: Float64Array[]) {
+    const targets: number[] = []
+
+    for (let channel = 0; channel < this._channels; channel++) {
+      targets.push(input._channelGain(channel, this._channels))
+    }
+
+    const gains = this._gains.get(input) || targets
+    this._gains.set(input, targets)
+
+    let chunk = input._take()
+
+    if (!chunk) {
+      return
+    }
+
+    const byteCount = rtAudioFormatToByteCount(this._format)
+    const chunkSize = this._chunkFrames * this._channels * byteCount
+
+    // the last chunk of an ending input may be partial, pad each channel to the whole chunk
+    if (chunk.byteLength < chunkSize) {
+      const padded = new Uint8Array(chunkSize)
+      padded.set(chunk)
+      chunk = padBlock(padded, chunk.byteLength, this._channels, byteCount, this._nonInterleaved)
+    }
+
+    const planes = decodeChunk(chunk, this._format, this._channels, this._nonInterleaved)
+
+    for (let channel = 0; channel < this._channels; channel++) {
+      const step = (targets[channel] - gains[channel]) / this._chunkFrames
+
+      for (let frame = 0; frame < this._chunkFrames; frame++) {
+        sum[channel][frame] += planes[channel][frame] * (gains[channel] + step * (frame + 1))
+      }
+    }
+  }
+
+  /** Apply the limiter, if enabled, and clip the sum to full scale */
+  private _limit(sum: Float64Array[]) {
+    for (let frame = 0; frame < this._chunkFrames; frame++) {
+      if (this._limiter) {
+        let peak = 0
+        for (let channel = 0; channel < this._channels; channel++) {
+          peak = Math.max(peak, Math.abs(sum[channel][frame]))
+        }
+
+        const required = peak > 1 ? 1 / peak : 1
+        this._limiterGain = Math.min(required, this._limiterGain + (1 - this._limiterGain) * this._release)
+      }
+
+      for (let channel = 0; channel < this._channels; channel++) {
+        sum[channel][frame] = Math.max(-1, Math.min(1, sum[channel][frame] * this._limiterGain))
+      }
+    }
+
+    return sum
+  }
+}
@@ -1,36 +1,79 @@
 import { Readable, Writable } from 'stream'
-import { RtAudio, RtAudioErrorType, RtAudioFormat, RtAudioStreamStatus } from '@hamitzor/rtaudio.js'
-import { rtAudioFormatToByteCount, getReadableErrorMessage } from './common'
+import { DeviceInfo, RtAudioApi, RtAudioErrorType, RtAudioFormat, RtAudioStreamStatus } from '@hamitzor/rtaudio.js'
+import { rtAudioFormatToByteCount, isNonInterleaved, padBlock } from './common'
 import { isUint8Array } from 'util/types'
-import { AudioIOParams } from './types'
-
-const merge = (u1: Uint8Array, u2: Uint8Array) => {
-  const merged = new Uint8Array(u1.byteLength + u2.byteLength)
-  merged.set(u1, 0)
-  merged.set(u2, u1.byteLength)
-  return merged
-}
-
-const head = (u: Uint8Array, n: number) => {
-  if (u.byteLength < n) {
-    return [new Uint8Array(0), u.subarray()]
-  }
-
-  const h = u.subarray(0, n)
-  const rest = u.subarray(n, u.byteLength)
-
-  return [h, rest]
-}
+import { AudioIOParams, ReconfigurableParams, UnderrunPolicy } from './types'
+import { AudioBackend, rtAudioBackend } from './backend'
+import { RingBuffer } from './ring-buffer'
+import { readSample, writeSample } from './samples'
+import { LevelInfo, LevelMeter } from './level-meter'
+import { DeviceFailover, FailoverEvent, isDeviceError } from './failover'
+import { assertSupportedParams } from './negotiate'
+import { createError, InvalidUseError, SonanceError, SonanceWarning } from './errors'
 
 /**
  * Class that represents an audio output stream
+ *
+ * The written chunks are queued in a ring buffer, whose capacity is {@link AudioIOParams | `params.highWaterMark`}
+ * (or a single chunk of {@link AudioIOParams | `params.bufferFrames`} frames, if that's bigger). A write is only
+ * acknowledged once its data fits into the ring buffer, so the backpressure follows the playback.
+ *
+ * When less than a chunk is queued at the time the device needs data after the playback has started, an underrun
+ * happens. What is played then is decided by {@link AudioIOParams | `params.underrunPolicy`}, and an `underrun`
+ * event is emitted with the number of frames that were missing. The playback starts with the first chunk played,
+ * and stops again once the stream is drained or ended, so an idle stream doesn't report underruns. When the stream is ended, the last partial chunk is padded with silence
+ * and played before the `finish` event is emitted.
+ *
+ * If {@link AudioIOParams | `params.meterInterval`} is given, the levels of the played audio are measured and
+ * a `level` event is emitted with a {@link LevelInfo} at that interval.
+ *
+ * The volume can be changed with {@link setGain}, {@link mute}, {@link unmute} and {@link fadeTo}. The gain is
+ * applied to the audio as it is played, so a change is heard within one chunk regardless of how much audio is
+ * queued. Changes are ramped over a chunk to avoid zipper noise, and the result is clipped to full scale.
+ *
+ * If {@link AudioIOParams | `params.failover`} is given, the stream is reopened on another device when its device
+ * is removed or fails, see {@link FailoverParams}. The queued audio is kept, the writes wait while no device is
+ * available, and a `failover` event is emitted with a {@link FailoverEvent} on each switch.
+ *
+ * The playback can be controlled with {@link start}, {@link stop} and {@link drain}, which return promises, and
+ * the stream can be moved to another device, buffer size or audio API with {@link reconfigure}:
+ *
+ * ```javascript
+ * await audioStream.drain()
+ * await audioStream.reconfigure({ deviceId: headphones.id, bufferFrames: 256 })
+ * ```
+ *
+ * An error the device reports while one of these operations runs rejects the promise, instead of being emitted
+ * with an `error` event, so the stream stays usable.
  */
 export class AudioOutputStream extends Writable {
   private _chunkSize: number
-  private _buffer: Uint8Array
-  private _rtAudio: RtAudio
-  private _shouldClose: boolean
-  private _destroyCallback: (error?: Error | null | undefined) => void
+  private _frameSize: number
+  private _channels: number
+  private _format: RtAudioFormat
+  private _nonInterleaved: boolean
+  private _underrunPolicy: UnderrunPolicy
+  private _lastChunk: Uint8Array
+  private _hasLastChunk: boolean
+  private _isPlaying: boolean
+  private _meter: LevelMeter | null
+  private _sampleRate: number
+  private _volume: number
+  private _muted: boolean
+  private _gain: number
+  private _gainStep: number
+  private _rampFrames: number
+  private _buffer: RingBuffer
+  private _pending: { chunks: Uint8Array[], callback: (error?: Error | null | undefined) => void } | null
+  private _rtAudio: AudioBackend
+  private _params: AudioIOParams
+  private _failover: DeviceFailover | null
+  private _deviceId: number
+  private _isStopped: boolean
+  private _drainCallbacks: ((error?: Error) => void)[]
+  private _capturedErrors: SonanceError[] | null
+  private _finalCallback: ((error?: Error | null | undefined) => void) | null
+  private _destroyCallback: ((error?: Error | null | undefined) => void) | null
   private _destroyError: Error | null
 
   /**
@@ -44,50 +87,42 @@ export class AudioOutputStream extends Writable {
     super({ highWaterMark: highWaterMark, emitClose: true })
 
     this._chunkSize = chunkSize
-    this._shouldClose = false
-    this._rtAudio = params.api ? new RtAudio(params.api) : new RtAudio()
-    this._destroyCallback = () => { }
+    this._channels = params.channels
+    this._format = params.format || RtAudioFormat.RTAUDIO_SINT16
+    this._frameSize = params.channels * rtAudioFormatToByteCount(this._format)
+    this._nonInterleaved = isNonInterleaved(params.options)
+    this._underrunPolicy = params.underrunPolicy || 'silence-fill'
+    this._lastChunk = new Uint8Array(chunkSize)
+    this._hasLastChunk = false
+    this._isPlaying = false
+    this._meter = params.meterInterval ? new LevelMeter(params, params.meterInterval) : null
+    this._sampleRate = params.sampleRate
+    this._volume = 1
+    this._muted = false
+    this._gain = 1
+    this._gainStep = 0
+    this._rampFrames = 0
+    this._finalCallback = null
+    this._params = params
+    this._capturedErrors = null
+    this._rtAudio = this._createBackend(params.api)
+    if (params.strict) {
+      assertSupportedParams(this._rtAudio, params.deviceId, params, 'output')
+    }
+    this._destroyCallback = null
     this._destroyError = null
-    this._buffer = new Uint8Array(0)
-    this._rtAudio.setErrorCallback((type, message) => {
-      if (type > RtAudioErrorType.DEBUG_WARNING) {
-        this.emit('error', new Error(getReadableErrorMessage(type, message)))
-      }
-    })
-
-    this._rtAudio.openStream(
-      {
-        deviceId: params.deviceId,
-        nChannels: params.channels,
-        firstChannel: params.firstChannel
-      },
-      null,
-      params.format || RtAudioFormat.RTAUDIO_SINT16,
-      params.sampleRate,
-      params.bufferFrames,
-      params.options || null,
-      (output, _input, _nFrame, _streamTime, status) => {
-        const [h, rest] = head(this._buffer, this._chunkSize)
-
-        this._buffer = rest
+    this._buffer = new RingBuffer(Math.max(highWaterMark, chunkSize))
+    this._pending = null
+    this._failover = this._createFailover(params)
+    this._deviceId = params.deviceId
+    this._isStopped = false
+    this._drainCallbacks = []
 
-        if (h.byteLength > 0) {
-          output.set(h, 0)
-          this.emit('api:processed')
-        } else if (this._shouldClose) {
-          this._destroyCallback(this._destroyError)
-          return 1
-        }
+    this._open(params.deviceId)
 
-        if (status === RtAudioStreamStatus.RTAUDIO_OUTPUT_UNDERFLOW) {
-          this.emit('api:underflow')
-        }
-
-        return 0
-      }
-    )
-
-    this._rtAudio.startStream()
+    if (!this._rtAudio.isStreamRunning() && !(this._failover && this._failover.isLost)) {
+      this._rtAudio.startStream()
+    }
   }
 
   /** Get the latency */
@@ -103,12 +138,196 @@ export class AudioOutputStream extends Writable {
   /** Get the time passed since the stream has started */
   get time(): number { return this._rtAudio.getStreamTime() }
 
-  /** Enable warnings, which will be provided through the 'error' event */
+  /** Get the parameters of the stream, including the changes made with {@link reconfigure} */
+  get params(): Readonly<AudioIOParams> { return this._params }
+
+  /** Get the number of bytes queued for playback */
+  get bufferLength(): number { return this._buffer.length }
+
+  /** Get the number of bytes that can be queued for playback */
+  get bufferCapacity(): number { return this._buffer.capacity }
+
+  /** Get the gain in dB, `-Infinity` if it was faded to silence. Muting doesn't change it */
+  get gain(): number { return 20 * Math.log(this._volume) / Math.LN10 }
+
+  /** Whether the stream is muted */
+  get muted(): boolean { return this._muted }
+
+  /**
+   * Set the gain, ramped over a chunk
+   *
+   * @param db the gain in dB, 0 for unity gain, `-Infinity` for silence
+   */
+  setGain(db: number): void {
+    this._volume = Math.pow(10, db / 20)
+    this._rampTo(this._muted ? 0 : this._volume, this._chunkSize / this._frameSize)
+  }
+
+  /**
+   * Fade the gain linearly to a new value
+   *
+   * @param db the gain in dB to fade to, `-Infinity` for silence
+   * @param duration the duration of the fade in milliseconds
+   */
+  fadeTo(db: number, duration: number): void {
+    this._volume = Math.pow(10, db / 20)
+    this._rampTo(this._muted ? 0 : this._volume, Math.max(1, Math.round(duration / 1000 * this._sampleRate)))
+  }
+
+  /** Silence the output, ramped over a chunk, keeping the gain for {@link unmute} */
+  mute(): void {
+    this._muted = true
+    this._rampTo(0, this._chunkSize / this._frameSize)
+  }
+
+  /** Restore the gain after {@link mute}, ramped over a chunk */
+  unmute(): void {
+    this._muted = false
+    this._rampTo(this._volume, this._chunkSize / this._frameSize)
+  }
+
+  /**
+   * Start the playback, or resume it after {@link stop}
+   *
+   * @returns a promise that resolves once the device is running, or rejects with the error it reports
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.destroyed) {
+        reject(this._createInvalidUseError('the stream is destroyed'))
+        return
+      }
+
+      this._isStopped = false
+
+      if (this._rtAudio.isStreamRunning() || this._isDeviceLost()) {
+        resolve()
+        return
+      }
+
+      const error = this._capture(() => this._rtAudio.startStream())
+
+      if (error) {
+        reject(error)
+        return
+      }
+
+      this._fillBuffer()
+      resolve()
+    })
+  }
+
+  /**
+   * Stop the playback right away. The queued audio is kept and the writes wait until {@link start} is called, call
+   * {@link drain} before to play the queued audio out.
+   *
+   * @returns a promise that resolves once the device is stopped, or rejects with the error it reports
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._isStopped = true
+
+      const error = this._rtAudio.isStreamRunning() ? this._capture(() => this._rtAudio.abortStream()) : null
+
+      if (error) {
+        reject(error)
+        return
+      }
+
+      resolve()
+    })
+  }
+
+  /**
+   * Wait for the queued audio to be played, including the last partial chunk, which is padded with silence. The writes
+   * made in the meantime are waited for too.
+   *
+   * @returns a promise that resolves once nothing is queued, or rejects if the stream is destroyed before
+   */
+  drain(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this._buffer.length === 0 && !this._pending) {
+        resolve()
+        return
+      }
+
+      this._drainCallbacks.push(error => error ? reject(error) : resolve())
+    })
+  }
+
+  /**
+   * Close the device and open it again with other parameters, keeping the queued audio. The stream goes on running if
+   * it was running. If the device can't be opened with the new parameters, the previous ones are restored.
+   *
+   * @param params the parameters to change
+   * @returns a promise that resolves once the device is reopened, or rejects with the error it reports
+   */
+  reconfigure(params: ReconfigurableParams): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.destroyed) {
+        reject(this._createInvalidUseError('the stream is destroyed'))
+        return
+      }
+
+      const previous = { params: this._params, rtAudio: this._rtAudio }
+      const next: AudioIOParams = { ...this._params, ...params }
+      const rtAudio = next.api !== this._params.api ? this._createBackend(next.api) : this._rtAudio
+
+      if (next.strict) {
+        assertSupportedParams(rtAudio, next.deviceId, next, 'output')
+      }
+
+      const isRunning = this._rtAudio.isStreamRunning() || this._isDeviceLost()
+
+      if (this._failover) {
+        this._failover.close()
+      }
+
+      if (this._rtAudio.isStreamOpen()) {
+        this._rtAudio.closeStream()
+      }
+
+      this._rtAudio = rtAudio
+      this._configure(next)
+
+      const error = this._capture(() => {
+        this._open(next.deviceId)
+        if (this._rtAudio.isStreamOpen() && isRunning) {
+          this._rtAudio.startStream()
+        }
+      })
+
+      if (error) {
+        if (this._rtAudio.isStreamOpen()) {
+          this._rtAudio.closeStream()
+        }
+
+        this._rtAudio = previous.rtAudio
+        this._configure(previous.params)
+        this._open(previous.params.deviceId)
+        if (isRunning) {
+          this._rtAudio.startStream()
+        }
+      }
+
+      this._failover = this._createFailover(this._params)
+      this._fillBuffer()
+
+      if (error) {
+        reject(error)
+        return
+      }
+
+      resolve()
+    })
+  }
+
+  /** Enable warnings, which will be provided through the 'warning' event */
   enableWarnings(): void {
     this._rtAudio.showWarnings(true)
   }
 
-  /** Disable warnings, which will be provided through the 'error' event */
+  /** Disable warnings */
   disableWarnings(): void {
     this._rtAudio.showWarnings(false)
   }
@@ -118,16 +337,25 @@ export class AudioOutputStream extends Writable {
       throw new TypeError('chunk should be an instance of Uint8Array')
     }
 
-    if (this._rtAudio.isStreamRunning()) {
-      this._buffer = merge(this._buffer, chunk)
+    if (!this._rtAudio.isStreamRunning() && !this._isHeld()) {
+      callback()
+      return
     }
 
-    callback()
+    this._pending = { chunks: [chunk], callback }
+    this._fillBuffer()
   }
 
   _destroy(error: Error | null, callback: (error?: Error | null | undefined) => void): void {
-    this._shouldClose = true
-    if (this._rtAudio.isStreamOpen()) {
+    if (this._failover) {
+      this._failover.close()
+    }
+
+    const drainCallbacks = this._drainCallbacks
+    this._drainCallbacks = []
+    drainCallbacks.forEach(drainCallback => drainCallback(error || this._createInvalidUseError('the stream is destroyed')))
+
+    if (this._rtAudio.isStreamOpen() && this._rtAudio.isStreamRunning()) {
       this._destroyCallback = callback
       this._destroyError = error
     } else {
@@ -140,28 +368,287 @@ export class AudioOutputStream extends Writable {
       throw new TypeError('each chunk should be an instance of Uint8Array')
     }
 
-    if (this._rtAudio.isStreamRunning()) {
-      chunks.forEach(({ chunk }) => {
-        this._buffer = merge(this._buffer, chunk)
-      })
+    if (!this._rtAudio.isStreamRunning() && !this._isHeld()) {
+      callback()
+      return
     }
 
-    callback()
+    this._pending = { chunks: chunks.map(({ chunk }) => chunk), callback }
+    this._fillBuffer()
   }
 
   _final(callback: (error?: Error | null | undefined) => void): void {
-    this._shouldClose = true
+    if (this._rtAudio.isStreamRunning()) {
+      this._finalCallback = callback
+    } else {
+      callback()
+    }
+  }
+
+  /** Play the next chunk from the ring buffer, padding each channel with silence if it is partial */
+  private _play(output: Uint8Array) {
+    const read = this._buffer.read(output, 0, this._chunkSize)
+    padBlock(output.subarray(0, this._chunkSize), read, this._channels, rtAudioFormatToByteCount(this._format), this._nonInterleaved)
+    this._lastChunk.set(output.subarray(0, this._chunkSize))
+    this._hasLastChunk = true
+    this._isPlaying = true
+    this._fillBuffer()
+    this.emit('api:processed')
+  }
+
+  /** Fill the output according to the underrun policy, when there is not enough data queued */
+  private _fillUnderrun(output: Uint8Array) {
+    if (!this._hasLastChunk || this._underrunPolicy === 'silence-fill' || this._underrunPolicy === 'zero-pad-partial') {
+      output.fill(0, 0, this._chunkSize)
+      return
+    }
+
+    output.set(this._lastChunk, 0)
+
+    if (this._underrunPolicy === 'fade-out-on-underrun') {
+      this._fadeOut(output)
+      this._hasLastChunk = false
+    }
+  }
+
+  /** Go back to idle once the queued audio is played out, so that nothing is repeated or reported as an underrun */
+  private _stopPlaying() {
+    this._isPlaying = false
+    this._hasLastChunk = false
+  }
+
+  /** Apply a linear fade to silence over the whole chunk */
+  private _fadeOut(output: Uint8Array) {
+    const byteCount = rtAudioFormatToByteCount(this._format)
+    const frames = this._chunkSize / this._frameSize
+    const view = new DataView(output.buffer, output.byteOffset, this._chunkSize)
+
+    for (let i = 0; i < frames * this._channels; i++) {
+      const frame = this._nonInterleaved ? i % frames : Math.floor(i / this._channels)
+      const gain = 1 - (frame + 1) / frames
+      writeSample(view, i * byteCount, this._format, readSample(view, i * byteCount, this._format) * gain)
+    }
+  }
+
+  /** Whether the device is lost with failover enabled, in which case the writes wait for another device */
+  private _isDeviceLost() {
+    return this._failover !== null && this._failover.isLost
+  }
+
+  /** Whether the writes wait for the stream to run again, either after {@link stop} or while the device is lost */
+  private _isHeld() {
+    return this._isStopped || this._isDeviceLost()
+  }
+
+  /** Create the backend for the given API, routing the errors it reports to the stream */
+  private _createBackend(api: RtAudioApi | undefined) {
+    const rtAudio = (this._params.backend || rtAudioBackend)(api)
+
+    rtAudio.setErrorCallback((type, message) => {
+      const error = createError(type, message, this._deviceId, api)
+
+      if (error instanceof SonanceWarning) {
+        this.emit('warning', error)
+      } else if (this._capturedErrors) {
+        this._capturedErrors.push(error)
+      } else if (this._failover && isDeviceError(type)) {
+        this._failover.fail()
+      } else {
+        this.emit('error', error)
+      }
+    })
+
+    return rtAudio
+  }
+
+  private _createFailover(params: AudioIOParams) {
+    return params.failover
+      ? new DeviceFailover('output', params, device => this._reopen(device), event => this.emit('failover', event))
+      : null
+  }
+
+  private _createInvalidUseError(message: string) {
+    return new InvalidUseError(message, { type: RtAudioErrorType.INVALID_USE, deviceId: this._deviceId, api: this._params.api })
+  }
+
+  /** Run an operation on the backend, returning the first error it reports instead of emitting it */
+  private _capture(operation: () => void) {
+    this._capturedErrors = []
+
+    try {
+      operation()
+      return this._capturedErrors[0] || null
+    } finally {
+      this._capturedErrors = null
+    }
+  }
+
+  /** Take the parameters over, resizing the chunks and growing the ring buffer if a chunk doesn't fit */
+  private _configure(params: AudioIOParams) {
+    this._params = params
+    this._chunkSize = params.bufferFrames * this._frameSize
+    this._lastChunk = new Uint8Array(this._chunkSize)
+    this._hasLastChunk = false
+
+    if (this._buffer.capacity < this._chunkSize) {
+      const queued = new Uint8Array(this._buffer.length)
+      this._buffer.read(queued)
+      this._buffer = new RingBuffer(this._chunkSize)
+      this._buffer.write(queued)
+    }
+  }
+
+  /** Open the stream on the given device */
+  private _open(deviceId: number) {
+    this._deviceId = deviceId
+    this._rtAudio.openStream(
+      {
+        deviceId: deviceId,
+        nChannels: this._params.channels,
+        firstChannel: this._params.firstChannel
+      },
+      null,
+      this._params.format || RtAudioFormat.RTAUDIO_SINT16,
+      this._params.sampleRate,
+      this._params.bufferFrames,
+      this._params.options || null,
+      (output, _input, _nFrame, _streamTime, status) => {
+        const queued = this._buffer.length
+        const isEnding = this._finalCallback !== null || this._destroyCallback !== null || this._drainCallbacks.length > 0
+
+        if (queued >= this._chunkSize || (queued > 0 && (isEnding || this._underrunPolicy === 'zero-pad-partial'))) {
+          const wasPlaying = this._isPlaying
+          this._play(output)
+          if (queued < this._chunkSize && !isEnding && wasPlaying) {
+            this.emit('underrun', (this._chunkSize - queued) / this._frameSize)
+          }
+        } else if (this._drainCallbacks.length > 0) {
+          const drainCallbacks = this._drainCallbacks
+          this._drainCallbacks = []
+          this._stopPlaying()
+          output.fill(0)
+          drainCallbacks.forEach(drainCallback => drainCallback())
+        } else if (this._finalCallback) {
+          const finalCallback = this._finalCallback
+          this._finalCallback = null
+          this._stopPlaying()
+          output.fill(0)
+          finalCallback()
+        } else if (this._destroyCallback) {
+          this._destroyCallback(this._destroyError)
+          return 1
+        } else if (this._isPlaying) {
+          this._fillUnderrun(output)
+          this.emit('underrun', this._chunkSize / this._frameSize)
+        } else {
+          output.fill(0, 0, this._chunkSize)
+        }
+
+        this._applyGain(output)
+
+        if (this._meter) {
+          const level = this._meter.process(output.subarray(0, this._chunkSize))
+          if (level) {
+            this.emit('level', level)
+          }
+        }
+
+        if (status === RtAudioStreamStatus.RTAUDIO_OUTPUT_UNDERFLOW) {
+          this.emit('api:underflow')
+        }
+
+        return 0
+      }
+    )
+
+  }
+
+  /** Reopen the stream on another device, keeping the queued audio, or only close it if there is none */
+  private _reopen(device: DeviceInfo | null) {
+    if (this._rtAudio.isStreamOpen()) {
+      this._rtAudio.closeStream()
+    }
+
+    if (!device) {
+      return false
+    }
+
+    this._open(device.id)
+
+    if (!this._rtAudio.isStreamOpen()) {
+      return false
+    }
+
+    this._rtAudio.startStream()
+    this._fillBuffer()
+    return true
+  }
+
+  /** Start ramping the applied gain to `target` over `frames` frames */
+  private _rampTo(target: number, frames: number) {
+    this._gainStep = (target - this._gain) / frames
+    this._rampFrames = frames
+  }
+
+  /** Multiply the chunk by the gain, advancing the ramp frame by frame */
+  private _applyGain(output: Uint8Array) {
+    if (this._rampFrames === 0 && this._gain === 1) {
+      return
+    }
+
+    const byteCount = rtAudioFormatToByteCount(this._format)
+    const frames = this._chunkSize / this._frameSize
+    const view = new DataView(output.buffer, output.byteOffset, this._chunkSize)
+
+    for (let frame = 0; frame < frames; frame++) {
+      if (this._rampFrames > 0) {
+        this._rampFrames--
+        this._gain = this._rampFrames === 0 ? (this._muted ? 0 : this._volume) : this._gain + this._gainStep
+      }
+
+      for (let channel = 0; channel < this._channels; channel++) {
+        const offset = (this._nonInterleaved ? channel * frames + frame : frame * this._channels + channel) * byteCount
+        const value = readSample(view, offset, this._format) * this._gain
+        writeSample(view, offset, this._format, Math.max(-1, Math.min(1, value)))
+      }
+    }
+  }
+
+  /** Move the pending chunks into the ring buffer, and acknowledge the write once all of them fit */
+  private _fillBuffer() {
+    if (!this._pending) {
+      return
+    }
+
+    const { chunks, callback } = this._pending
+
+    while (chunks.length > 0) {
+      const written = this._buffer.write(chunks[0])
+
+      if (written < chunks[0].byteLength) {
+        chunks[0] = chunks[0].subarray(written)
+        return
+      }
+
+      chunks.shift()
+    }
+
+    this._pending = null
     callback()
   }
 
   on(event: 'close', listener: () => void): this
   on(event: 'drain', listener: () => void): this
   on(event: 'error', listener: (err: Error) => void): this
+  on(event: 'warning', listener: (warning: SonanceWarning) => void): this
   on(event: 'finish', listener: () => void): this
   on(event: 'pipe', listener: (src: Readable) => void): this
   on(event: 'unpipe', listener: (src: Readable) => void): this
   on(event: 'api:underflow', listener: () => void): this
   on(event: 'api:processed', listener: () => void): this
+  on(event: 'underrun', listener: (missingFrames: number) => void): this
+  on(event: 'level', listener: (level: LevelInfo) => void): this
+  on(event: 'failover', listener: (failover: FailoverEvent) => void): this
   on(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.on(event, listener)
   }
@@ -169,11 +656,15 @@ export class AudioOutputStream extends Writable {
   addListener(event: 'close', listener: () => void): this
   addListener(event: 'drain', listener: () => void): this
   addListener(event: 'error', listener: (err: Error) => void): this
+  addListener(event: 'warning', listener: (warning: SonanceWarning) => void): this
   addListener(event: 'finish', listener: () => void): this
   addListener(event: 'pipe', listener: (src: Readable) => void): this
   addListener(event: 'unpipe', listener: (src: Readable) => void): this
   addListener(event: 'api:underflow', listener: () => void): this
   addListener(event: 'api:processed', listener: () => void): this
+  addListener(event: 'underrun', listener: (missingFrames: number) => void): this
+  addListener(event: 'level', listener: (level: LevelInfo) => void): this
+  addListener(event: 'failover', listener: (failover: FailoverEvent) => void): this
   addListener(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.addListener(event, listener)
   }
@@ -181,11 +672,15 @@ export class AudioOutputStream extends Writable {
   once(event: 'close', listener: () => void): this
   once(event: 'drain', listener: () => void): this
   once(event: 'error', listener: (err: Error) => void): this
+  once(event: 'warning', listener: (warning: SonanceWarning) => void): this
   once(event: 'finish', listener: () => void): this
   once(event: 'pipe', listener: (src: Readable) => void): this
   once(event: 'unpipe', listener: (src: Readable) => void): this
   once(event: 'api:underflow', listener: () => void): this
   once(event: 'api:processed', listener: () => void): this
+  once(event: 'underrun', listener: (missingFrames: number) => void): this
+  once(event: 'level', listener: (level: LevelInfo) => void): this
+  once(event: 'failover', listener: (failover: FailoverEvent) => void): this
   once(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.once(event, listener)
   }
@@ -193,11 +688,15 @@ export class AudioOutputStream extends Writable {
   removeListener(event: 'close', listener: () => void): this
   removeListener(event: 'drain', listener: () => void): this
   removeListener(event: 'error', listener: (err: Error) => void): this
+  removeListener(event: 'warning', listener: (warning: SonanceWarning) => void): this
   removeListener(event: 'finish', listener: () => void): this
   removeListener(event: 'pipe', listener: (src: Readable) => void): this
   removeListener(event: 'unpipe', listener: (src: Readable) => void): this
   removeListener(event: 'api:underflow', listener: () => void): this
   removeListener(event: 'api:processed', listener: () => void): this
+  removeListener(event: 'underrun', listener: (missingFrames: number) => void): this
+  removeListener(event: 'level', listener: (level: LevelInfo) => void): this
+  removeListener(event: 'failover', listener: (failover: FailoverEvent) => void): this
   removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
     return super.removeListener(event, listener)
   }
@@ -205,11 +704,15 @@ export class AudioOutputStream extends Writable {
   emit(event: 'close'): boolean
   emit(event: 'drain'): boolean
   emit(event: 'error', err: Error): boolean
+  emit(event: 'warning', warning: SonanceWarning): boolean
   emit(event: 'finish'): boolean
   emit(event: 'pipe', src: Readable): boolean
   emit(event: 'unpipe', src: Readable): boolean
   emit(event: 'api:underflow'): boolean
   emit(event: 'api:processed'): boolean
+  emit(event: 'underrun', missingFrames: number): boolean
+  emit(event: 'level', level: LevelInfo): boolean
+  emit(event: 'failover', failover: FailoverEvent): boolean
   emit(event: string | symbol, ...args: any[]): boolean {
     return super.emit(event, ...args)
   }
@@ -0,0 +1,347 @@
+import { Readable, Writable } from 'stream'
+import { isUint8Array } from 'util/types'
+
+/**
+ * What a branch of an {@link AudioSplitter} does with a chunk when its queue is full
+ *
+ * - `drop-oldest`: drop the oldest queued chunk to make room, keeping the branch close to realtime
+ * - `drop-newest`: drop the incoming chunk, keeping the queued audio continuous
+ * - `block`: hold the source until the branch has room, which applies backpressure to all the branches
+ */
+export type DropPolicy = 'drop-oldest' | 'drop-newest' | 'block'
+
+export type AudioSplitterBranchOptions = {
+  /** the maximum number of chunks queued for the branch (default=16) */
+  maxQueue?: number
+
+  /** what to do with a chunk when the queue is full (default='drop-oldest') */
+  dropPolicy?: DropPolicy
+}
+
+/** Statistics of an {@link AudioSplitterBranch} */
+export type AudioSplitterBranchStats = {
+  /** the number of chunks delivered to the consumer */
+  deliveredChunks: number
+
+  /** the number of chunks dropped because the queue was full */
+  droppedChunks: number
+
+  /** the number of bytes dropped because the queue was full */
+  droppedBytes: number
+
+  /** the number of chunks queued */
+  queuedChunks: number
+}
+
+/**
+ * A branch of an {@link AudioSplitter}, created with {@link AudioSplitter.createBranch | `splitter.createBranch`}.
+ * It is a readable stream delivering the chunks written to the splitter, through its own bounded queue.
+ */
+export class AudioSplitterBranch extends Readable {
+  private _maxQueue: number
+  private _dropPolicy: DropPolicy
+  private _queue: Uint8Array[]
+  private _wantsData: boolean
+  private _ending: boolean
+  private _stats: AudioSplitterBranchStats
+  private _onRead: () => void
+
+  /**
+   * Create a splitter branch, use {@link AudioSplitter.createBranch | `splitter.createBranch`} instead
+   *
+   * @param options options for the branch
+   * @param onRead called when the queue shrinks
+   */
+  constructor(options: AudioSplitterBranchOptions, onRead: () => void) {
+    super({ highWaterMark: 0, emitClose: true })
+
+    this._maxQueue = Math.max(1, options.maxQueue || 16)
+    this._dropPolicy = options.dropPolicy || 'drop-oldest'
+    this._queue = []
+    this._wantsData = false
+    this._ending = false
+    this._stats = { deliveredChunks: 0, droppedChunks: 0, droppedBytes: 0, queuedChunks: 0 }
+    this._onRead = onRead
+  }
+
+  /** Get the drop policy */
+  get dropPolicy(): DropPolicy { return this._dropPolicy }
+
+  /** Get the statistics of the branch */
+  get stats(): AudioSplitterBranchStats {
+    return { ...this._stats, queuedChunks: this._queue.length }
+  }
+
+  /** Whether the queue is full, in which case a `block` branch holds the source */
+  get isFull(): boolean { return this._queue.length >= this._maxQueue }
+
+  /**
+   * Queue a chunk, dropping one if the queue is full and the policy is not `block`
+   *
+   * @private
+   */
+  _enqueue(chunk: Uint8Array): void {
+    if (this.destroyed || this._ending) {
+      return
+    }
+
+    if (this.isFull && this._dropPolicy !== 'block') {
+      const dropped = this._dropPolicy === 'drop-oldest' ? this._queue.shift() as Uint8Array : chunk
+
+      this._stats.droppedChunks++
+      this._stats.droppedBytes += dropped.byteLength
+      this.emit('drop', this.stats)
+
+      if (dropped === chunk) {
+        return
+      }
+    }
+
+    this._queue.push(chunk)
+    this._deliver()
+  }
+
+  /**
+   * End the branch once its queue is delivered
+   *
+   * @private
+   */
+  _end(): void {
+    this._ending = true
+    this._deliver()
+  }
+
+  /** @private */
+  _read(_size: number): void {
+    this._wantsData = true
+    this._deliver()
+  }
+
+  /** @private */
+  _destroy(error: Error | null, callback: (error?: Error | null | undefined) => void): void {
+    this._queue = []
+    this._onRead()
+    callback(error)
+  }
+
+  /** Push queued chunks as long as the consumer wants them */
+  private _deliver() {
+    const length = this._queue.length
+
+    while (this._wantsData && this._queue.length > 0) {
+      this._stats.deliveredChunks++
+      this._wantsData = this.push(this._queue.shift())
+    }
+
+    if (this._wantsData && this._ending && this._queue.length === 0) {
+      this._wantsData = false
+      this.push(null)
+    }
+
+    if (this._queue.length < length) {
+      this._onRead()
+    }
+  }
+
+  /** @ignore */
+  on(event: 'close', listener: () => void): this
+  /** @ignore */
+  on(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  on(event: 'end', listener: () => void): this
+  /** @ignore */
+  on(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  on(event: 'pause', listener: () => void): this
+  /** @ignore */
+  on(event: 'readable', listener: () => void): this
+  /** @ignore */
+  on(event: 'resume', listener: () => void): this
+  /** @ignore */
+  on(event: 'drop', listener: (stats: AudioSplitterBranchStats) => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  addListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  addListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'drop', listener: (stats: AudioSplitterBranchStats) => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'close', listener: () => void): this
+  /** @ignore */
+  once(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  once(event: 'end', listener: () => void): this
+  /** @ignore */
+  once(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  once(event: 'pause', listener: () => void): this
+  /** @ignore */
+  once(event: 'readable', listener: () => void): this
+  /** @ignore */
+  once(event: 'resume', listener: () => void): this
+  /** @ignore */
+  once(event: 'drop', listener: (stats: AudioSplitterBranchStats) => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  removeListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  removeListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'drop', listener: (stats: AudioSplitterBranchStats) => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'close'): boolean
+  /** @ignore */
+  emit(event: 'data', chunk: any): boolean
+  /** @ignore */
+  emit(event: 'end'): boolean
+  /** @ignore */
+  emit(event: 'error', err: Error): boolean
+  /** @ignore */
+  emit(event: 'pause'): boolean
+  /** @ignore */
+  emit(event: 'readable'): boolean
+  /** @ignore */
+  emit(event: 'resume'): boolean
+  /** @ignore */
+  emit(event: 'drop', stats: AudioSplitterBranchStats): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+}
+
+/**
+ * Class that fans the audio of a single source out to several independent consumers, e.g. to let one microphone
+ * feed a recorder, a speech recognizer and a network sender at the same time:
+ *
+ * ```javascript
+ * const splitter = new AudioSplitter()
+ * const recorder = splitter.createBranch({ dropPolicy: 'block', maxQueue: 64 })
+ * const recognizer = splitter.createBranch({ dropPolicy: 'drop-oldest' })
+ *
+ * pipeline(audioStream, splitter)
+ * pipeline(recorder, new WavWriter('recording.wav', params))
+ * pipeline(recognizer, speechEngine)
+ * ```
+ *
+ * When piping an {@link AudioInputStream | `AudioInputStream`} into several destinations directly, the slowest one
+ * pauses the stream for all of them, while the stream buffers the audio without any bound. The splitter instead
+ * consumes the audio as it arrives, and gives each branch a bounded queue of its own. When the queue of a branch
+ * is full, its {@link DropPolicy | drop policy} decides whether a chunk is dropped, which only affects that branch,
+ * or the source is held. Each branch counts what it dropped in its {@link AudioSplitterBranch.stats | `stats`}
+ * and emits a `drop` event for every dropped chunk.
+ *
+ * The branches end once the splitter is ended and their queues are delivered.
+ */
+export class AudioSplitter extends Writable {
+  private _branches: AudioSplitterBranch[]
+  private _blockedCallback: (() => void) | null
+
+  /**
+   * Create an audio splitter
+   */
+  constructor() {
+    super({ emitClose: true })
+
+    this._branches = []
+    this._blockedCallback = null
+  }
+
+  /** Get the branches the audio is delivered to */
+  get branches(): readonly AudioSplitterBranch[] { return this._branches }
+
+  /**
+   * Create a branch, which receives the chunks written from now on
+   *
+   * @param options options for the branch
+   */
+  createBranch(options: AudioSplitterBranchOptions = {}): AudioSplitterBranch {
+    const branch = new AudioSplitterBranch(options, () => this._unblock())
+
+    this._branches.push(branch)
+    branch.once('close', () => {
+      this._branches = this._branches.filter(other => other !== branch)
+      this._unblock()
+    })
+
+    if (this.writableFinished) {
+      branch._end()
+    }
+
+    return branch
+  }
+
+  /** @private */
+  _write(chunk: Uint8Array, _encoding: BufferEncoding, callback: () => void): void {
+    if (!isUint8Array(chunk)) {
+      throw new TypeError('chunk should be an instance of Uint8Array')
+    }
+
+    this._branches.forEach(branch => branch._enqueue(chunk))
+
+    this._blockedCallback = callback
+    this._unblock()
+  }
+
+  /** @private */
+  _final(callback: (error?: Error | null | undefined) => void): void {
+    this._branches.forEach(branch => branch._end())
+    callback()
+  }
+
+  /** @private */
+  _destroy(error: Error | null, callback: (error?: Error | null | undefined) => void): void {
+    this._branches.slice().forEach(branch => branch.destroy(error || undefined))
+    callback(error)
+  }
+
+  /** Acknowledge the last write once no `block` branch is full */
+  private _unblock() {
+    if (!this._blockedCallback || this._branches.find(branch => branch.dropPolicy === 'block' && branch.isFull)) {
+      return
+    }
+
+    const callback = this._blockedCallback
+    this._blockedCallback = null
+    callback()
+  }
+}
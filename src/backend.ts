@@ -0,0 +1,79 @@
+import {
+  DeviceInfo,
+  RtAudio,
+  RtAudioApi,
+  RtAudioCallback,
+  RtAudioErrorType,
+  RtAudioFormat,
+  StreamOptions,
+  StreamParameters,
+} from '@hamitzor/rtaudio.js'
+
+/**
+ * The set of operations the library performs on an audio backend. It mirrors the
+ * `RtAudio` class from {@link https://github.com/hamitzor/rtaudio.js | @hamitzor/rtaudio.js},
+ * which is the default backend. An alternative backend, e.g. {@link VirtualAudioHost | a virtual one},
+ * can be provided through {@link AudioIOParams | `params.backend`}.
+ *
+ * Each stream creates its own backend instance, and opens at most one stream on it.
+ */
+export interface AudioBackend {
+  /** Get the devices available on the system */
+  getDevices(): DeviceInfo[]
+
+  /** Get the id of the default input device */
+  getDefaultInputDevice(): number
+
+  /** Get the id of the default output device */
+  getDefaultOutputDevice(): number
+
+  /** Open a stream and get the actual buffer size in frames, which may differ from `bufferFrames`, see `RtAudio.openStream` */
+  openStream(
+    outputParameters: StreamParameters | null,
+    inputParameters: StreamParameters | null,
+    format: RtAudioFormat,
+    sampleRate: number,
+    bufferFrames: number,
+    options: StreamOptions | null,
+    callback: RtAudioCallback | null
+  ): number
+
+  /** Close the stream and free the associated resources */
+  closeStream(): void
+
+  /** Start the stream */
+  startStream(): void
+
+  /** Stop the stream after draining the pending output */
+  stopStream(): void
+
+  /** Stop the stream immediately, discarding the pending output */
+  abortStream(): void
+
+  /** Whether a stream is open */
+  isStreamOpen(): boolean
+
+  /** Whether the stream is running */
+  isStreamRunning(): boolean
+
+  /** Get the number of seconds elapsed since the stream has started */
+  getStreamTime(): number
+
+  /** Get the latency of the stream in frames */
+  getStreamLatency(): number
+
+  /** Get the actual sample rate of the stream */
+  getStreamSampleRate(): number
+
+  /** Enable or disable reporting of warnings through the error callback */
+  showWarnings(enable: boolean): void
+
+  /** Set the callback that receives the errors and the warnings */
+  setErrorCallback(callback: (type: RtAudioErrorType, message: string) => void): void
+}
+
+/** A function that creates a new backend instance for the given API */
+export type AudioBackendFactory = (api?: RtAudioApi) => AudioBackend
+
+/** The default backend, which uses `RtAudio` */
+export const rtAudioBackend: AudioBackendFactory = (api?: RtAudioApi) => api ? new RtAudio(api) : new RtAudio()
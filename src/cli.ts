@@ -0,0 +1,390 @@
+#!/usr/bin/env node
+import { createReadStream, createWriteStream } from 'fs'
+import { extname } from 'path'
+import { Readable, Writable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { parseArgs } from 'util'
+import { DeviceInfo, RtAudio, RtAudioApi, RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { AudioInputStream } from './audio-input-stream'
+import { AudioOutputStream } from './audio-output-stream'
+import { probeApis, probeDevices } from './probe'
+import { WavParams, WavReader, WavWriter } from './wav'
+import { SignalGenerator, SignalType } from './signal-generator'
+import { LevelInfo } from './level-meter'
+import { AudioIOParams, PcmParams } from './types'
+
+const USAGE = `Usage: sonance <command> [options]
+
+Commands:
+  apis                  list the audio APIs
+  devices               list the devices of an API
+  record <file>         record from an input device to a WAV file, or a raw file if the extension is not .wav
+  play <file>           play a WAV or raw file on an output device
+  tone                  play a test signal on an output device
+  meter                 show the levels of an input device
+
+Options:
+  --api <name>          the audio API, e.g. pulse or wasapi (default=the first available one)
+  -d, --device <device> the device id, or a part of its name (default=the default device)
+  -c, --channels <n>    the number of channels (default=2, or what the device has if less)
+  -r, --rate <hz>       the sample rate (default=the preferred rate of the device)
+  -f, --format <name>   the sample format: s8, s16, s32, f32 or f64 (default=s16)
+  -b, --buffer-frames <n>
+                        the number of frames in a chunk (default=a tenth of the rate)
+  -t, --duration <s>    stop after this many seconds (default=until Ctrl+C, or 2 for tone)
+  --raw                 record a raw file even if the extension is .wav
+  --signal <name>       the test signal: sine, square, white-noise, pink-noise, sweep or dtmf (default=sine)
+  --frequency <hz>      the frequency of the test signal, or one per channel separated by commas (default=440)
+  --amplitude <0-1>     the amplitude of the test signal, or one per channel separated by commas (default=0.5)
+  --json                print apis and devices as JSON
+  -h, --help            show this help
+`
+
+const OPTIONS = {
+  'api': { type: 'string' },
+  'device': { type: 'string', short: 'd' },
+  'channels': { type: 'string', short: 'c' },
+  'rate': { type: 'string', short: 'r' },
+  'format': { type: 'string', short: 'f' },
+  'buffer-frames': { type: 'string', short: 'b' },
+  'duration': { type: 'string', short: 't' },
+  'raw': { type: 'boolean' },
+  'signal': { type: 'string' },
+  'frequency': { type: 'string' },
+  'amplitude': { type: 'string' },
+  'json': { type: 'boolean' },
+  'help': { type: 'boolean', short: 'h' },
+} as const
+
+type CliOptions = ReturnType<typeof parseCommandLine>['values']
+
+const FORMATS: { [name: string]: RtAudioFormat } = {
+  s8: RtAudioFormat.RTAUDIO_SINT8,
+  s16: RtAudioFormat.RTAUDIO_SINT16,
+  s32: RtAudioFormat.RTAUDIO_SINT32,
+  f32: RtAudioFormat.RTAUDIO_FLOAT32,
+  f64: RtAudioFormat.RTAUDIO_FLOAT64,
+}
+
+const SIGNALS: SignalType[] = ['sine', 'square', 'white-noise', 'pink-noise', 'sweep', 'dtmf']
+
+const parseCommandLine = (args: string[]) => parseArgs({ args, options: OPTIONS, allowPositionals: true })
+
+const formatName = (format: RtAudioFormat) => Object.keys(FORMATS).find(name => FORMATS[name] === format) || String(format)
+
+const toNumber = (name: string, value: string) => {
+  const number = Number(value)
+  if (value.trim() === '' || isNaN(number)) {
+    throw new TypeError(`--${name} should be a number, got '${value}'`)
+  }
+  return number
+}
+
+/** Parse a number, or a list of numbers separated by commas */
+const toNumbers = (name: string, value: string) => {
+  const numbers = value.split(',').map(item => toNumber(name, item))
+  return numbers.length === 1 ? numbers[0] : numbers
+}
+
+/** Pad the cells of a table into aligned columns */
+const formatTable = (rows: string[][]) => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)))
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').replace(/\s+$/, '')).join('\n')
+}
+
+const findApi = (name?: string): RtAudioApi | undefined => {
+  if (name === undefined) {
+    return undefined
+  }
+
+  const api = probeApis().find(({ id, name: displayName }) =>
+    [RtAudio.getApiName(id), displayName].some(candidate => candidate.toLowerCase() === name.toLowerCase()))
+
+  if (!api) {
+    throw new RangeError(`unknown api '${name}', available: ${probeApis().map(({ id }) => RtAudio.getApiName(id)).join(', ')}`)
+  }
+
+  return api.id
+}
+
+/** Find a device by id or by a part of its name, or get the default one */
+const findDevice = (api: RtAudioApi | undefined, direction: 'input' | 'output', query?: string): DeviceInfo => {
+  const { devices, defaultInputDevice, defaultOutputDevice } = probeDevices(api)
+  const channelsOf = (device: DeviceInfo) => direction === 'input' ? device.inputChannels : device.outputChannels
+  const candidates = devices.filter(device => channelsOf(device) > 0)
+
+  const device = query === undefined
+    ? (direction === 'input' ? defaultInputDevice : defaultOutputDevice) || candidates[0]
+    : candidates.find(device => String(device.id) === query) ||
+      candidates.find(device => device.name.toLowerCase().indexOf(query.toLowerCase()) !== -1)
+
+  if (!device) {
+    throw new RangeError(query === undefined ? `no ${direction} device found` : `no ${direction} device matches '${query}'`)
+  }
+
+  return device
+}
+
+/** Build the stream parameters from the options and what the device supports */
+const getParams = (options: CliOptions, device: DeviceInfo, direction: 'input' | 'output', api?: RtAudioApi): AudioIOParams => {
+  const deviceChannels = direction === 'input' ? device.inputChannels : device.outputChannels
+  const sampleRate = options.rate !== undefined ? toNumber('rate', options.rate) : device.preferredSampleRate || 48000
+  const format = options.format !== undefined ? FORMATS[options.format] : RtAudioFormat.RTAUDIO_SINT16
+
+  if (options.format !== undefined && Object.keys(FORMATS).indexOf(options.format) === -1) {
+    throw new RangeError(`unknown format '${options.format}', available: ${Object.keys(FORMATS).join(', ')}`)
+  }
+
+  return {
+    api,
+    deviceId: device.id,
+    channels: options.channels !== undefined ? toNumber('channels', options.channels) : Math.min(2, deviceChannels),
+    sampleRate,
+    format,
+    bufferFrames: options['buffer-frames'] !== undefined ? toNumber('buffer-frames', options['buffer-frames']) : Math.round(sampleRate / 10),
+  }
+}
+
+const describe = (device: DeviceInfo, params: PcmParams) =>
+  `${device.name} (${params.channels} channel${params.channels === 1 ? '' : 's'}, ${params.sampleRate} Hz, ${formatName(params.format as RtAudioFormat)})`
+
+/** Call `stop` on Ctrl+C, returns a function that removes the handler */
+const onInterrupt = (stop: () => void) => {
+  const onSignal = () => stop()
+
+  process.once('SIGINT', onSignal)
+
+  return () => {
+    process.removeListener('SIGINT', onSignal)
+  }
+}
+
+/** Call `stop` after `--duration` seconds, or on Ctrl+C */
+const stopAfter = (options: CliOptions, stop: () => void) => {
+  const timer = options.duration !== undefined ? setTimeout(stop, toNumber('duration', options.duration) * 1000) : null
+  const removeHandler = onInterrupt(stop)
+
+  return () => {
+    if (timer) {
+      clearTimeout(timer)
+    }
+    removeHandler()
+  }
+}
+
+/** Wait for a pipeline into an output stream, which is fine to be cut short by destroying the output stream */
+const playOut = async (source: Readable, audioStream: AudioOutputStream) => {
+  try {
+    await pipeline(source, audioStream)
+  } catch (error) {
+    if (!audioStream.destroyed || (error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      throw error
+    }
+  }
+}
+
+const listApis = (options: CliOptions) => {
+  const apis = probeApis().map(({ id, name }) => ({ id, name: RtAudio.getApiName(id), displayName: name }))
+
+  if (options.json) {
+    console.log(JSON.stringify(apis, null, 2))
+    return
+  }
+
+  console.log(formatTable([['ID', 'NAME', 'DISPLAY NAME'], ...apis.map(api => [String(api.id), api.name, api.displayName])]))
+}
+
+const listDevices = (options: CliOptions) => {
+  const { devices, defaultInputDevice, defaultOutputDevice } = probeDevices(findApi(options.api))
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      devices,
+      defaultInputDevice: defaultInputDevice ? defaultInputDevice.id : null,
+      defaultOutputDevice: defaultOutputDevice ? defaultOutputDevice.id : null,
+    }, null, 2))
+    return
+  }
+
+  const isDefault = (device: DeviceInfo, defaultDevice?: DeviceInfo) => defaultDevice !== undefined && defaultDevice.id === device.id
+
+  console.log(formatTable([
+    ['ID', 'NAME', 'IN', 'OUT', 'DUPLEX', 'RATE', 'DEFAULT'],
+    ...devices.map(device => [
+      String(device.id),
+      device.name,
+      String(device.inputChannels),
+      String(device.outputChannels),
+      String(device.duplexChannels),
+      String(device.preferredSampleRate),
+      [isDefault(device, defaultInputDevice) ? 'input' : '', isDefault(device, defaultOutputDevice) ? 'output' : '']
+        .filter(Boolean).join(', '),
+    ])
+  ]))
+}
+
+const record = async (options: CliOptions, file?: string) => {
+  if (!file) {
+    throw new TypeError('record requires a file')
+  }
+
+  const api = findApi(options.api)
+  const device = findDevice(api, 'input', options.device)
+  const params = getParams(options, device, 'input', api)
+  const raw = options.raw || extname(file).toLowerCase() !== '.wav'
+  const audioStream = new AudioInputStream(params)
+  const destination: Writable = raw ? createWriteStream(file) : new WavWriter(file, params)
+  const cleanup = stopAfter(options, () => audioStream.stopAudio())
+
+  console.error(`Recording ${raw ? 'raw audio' : 'WAV'} from ${describe(device, params)} to ${file}, press Ctrl+C to stop`)
+
+  try {
+    await pipeline(audioStream, destination)
+  } finally {
+    cleanup()
+  }
+}
+
+const play = async (options: CliOptions, file?: string) => {
+  if (!file) {
+    throw new TypeError('play requires a file')
+  }
+
+  const api = findApi(options.api)
+  const device = findDevice(api, 'output', options.device)
+  let source: Readable = createReadStream(file)
+  let params = getParams(options, device, 'output', api)
+
+  if (!options.raw && extname(file).toLowerCase() === '.wav') {
+    const reader = source.pipe(new WavReader())
+    source.once('error', error => reader.destroy(error))
+
+    const format = await new Promise<WavParams>((resolve, reject) => {
+      reader.once('format', resolve)
+      reader.once('error', reject)
+    })
+
+    params = { ...params, ...format, bufferFrames: Math.round(format.sampleRate / 10) }
+    source = reader
+  }
+
+  const audioStream = new AudioOutputStream(params)
+  const cleanup = stopAfter(options, () => audioStream.destroy())
+
+  console.error(`Playing ${file} on ${describe(device, params)}`)
+
+  try {
+    await playOut(source, audioStream)
+  } finally {
+    cleanup()
+  }
+}
+
+const tone = async (options: CliOptions) => {
+  const api = findApi(options.api)
+  const device = findDevice(api, 'output', options.device)
+  const params = getParams(options, device, 'output', api)
+  const signal = (options.signal || 'sine') as SignalType
+
+  if (SIGNALS.indexOf(signal) === -1) {
+    throw new RangeError(`unknown signal '${signal}', available: ${SIGNALS.join(', ')}`)
+  }
+
+  const duration = options.duration !== undefined ? toNumber('duration', options.duration) : 2
+  const generator = new SignalGenerator({
+    ...params,
+    signal,
+    duration: duration * 1000,
+    frequency: options.frequency !== undefined ? toNumbers('frequency', options.frequency) : undefined,
+    amplitude: options.amplitude !== undefined ? toNumbers('amplitude', options.amplitude) : undefined,
+  })
+  const audioStream = new AudioOutputStream(params)
+  const cleanup = onInterrupt(() => audioStream.destroy())
+
+  console.error(`Playing ${signal} on ${describe(device, params)} for ${duration} seconds, press Ctrl+C to stop`)
+
+  try {
+    await playOut(generator, audioStream)
+  } finally {
+    cleanup()
+  }
+}
+
+/** Render a level between -60 dBFS and 0 dBFS as a bar */
+const renderLevel = (level: LevelInfo, channel: number) => {
+  const width = 40
+  const position = (dbfs: number) => Math.max(0, Math.min(width, Math.round((dbfs + 60) / 60 * width)))
+  const rms = position(level.rmsDbfs[channel])
+  const peak = position(level.peakDbfs[channel])
+  const bar = Array.from({ length: width }, (_, i) => i < rms ? '#' : i === peak - 1 ? '|' : '-').join('')
+  const dbfs = (value: number) => (value === -Infinity ? '-inf' : value.toFixed(1)).padStart(6)
+
+  return `ch${channel + 1} [${bar}] rms ${dbfs(level.rmsDbfs[channel])} dB  peak ${dbfs(level.peakDbfs[channel])} dB` +
+    (level.clipped[channel] > 0 ? '  CLIP' : '')
+}
+
+const meter = async (options: CliOptions) => {
+  const api = findApi(options.api)
+  const device = findDevice(api, 'input', options.device)
+  const params = getParams(options, device, 'input', api)
+  const audioStream = new AudioInputStream({ ...params, meterInterval: 100 })
+  const cleanup = stopAfter(options, () => audioStream.stopAudio())
+  let rendered = false
+
+  console.error(`Metering ${describe(device, params)}, press Ctrl+C to stop`)
+
+  audioStream.on('level', level => {
+    const lines = level.rms.map((_, channel) => renderLevel(level, channel) + '\x1b[K')
+    process.stdout.write((rendered ? `\x1b[${lines.length}A` : '') + lines.join('\n') + '\n')
+    rendered = true
+  })
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      audioStream.once('end', resolve)
+      audioStream.once('error', reject)
+      audioStream.resume()
+    })
+  } finally {
+    cleanup()
+  }
+}
+
+/**
+ * Run the command line tool
+ *
+ * @param args the arguments, without the node executable and the script
+ */
+export const main = async (args: string[]): Promise<void> => {
+  const { values: options, positionals } = parseCommandLine(args)
+  const [command, file] = positionals
+
+  if (options.help || !command || command === 'help') {
+    process.stdout.write(USAGE)
+    return
+  }
+
+  switch (command) {
+    case 'apis':
+      return listApis(options)
+    case 'devices':
+      return listDevices(options)
+    case 'record':
+      return record(options, file)
+    case 'play':
+      return play(options, file)
+    case 'tone':
+      return tone(options)
+    case 'meter':
+      return meter(options)
+  }
+
+  throw new TypeError(`unknown command '${command}', see sonance --help`)
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error(`sonance: ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+  })
+}
@@ -0,0 +1,490 @@
+import { Transform, TransformCallback } from 'stream'
+import { isHostLittleEndian } from './common'
+
+/**
+ * The codecs {@link AudioEncoder} and {@link AudioDecoder} support:
+ *
+ *  - `mulaw`: G.711 µ-law, one byte per sample
+ *  - `alaw`: G.711 A-law, one byte per sample
+ *  - `ima-adpcm`: IMA/DVI ADPCM, four bits per sample, in the blocks used by WAV files
+ */
+export type AudioCodec = 'mulaw' | 'alaw' | 'ima-adpcm'
+
+export type AudioCodecOptions = {
+  /** the codec to encode with or decode from */
+  codec: AudioCodec
+
+  /** the number of interleaved channels */
+  channels: number
+
+  /**
+   * the size of an IMA ADPCM block in bytes, including the 4 byte header of each channel, applies to `ima-adpcm`
+   * (default=256 per channel)
+   */
+  blockAlign?: number
+}
+
+/** A stateful conversion between 16-bit samples and an encoded stream, which keeps the partial blocks for later */
+export type CodecProcessor = {
+  process(data: Uint8Array): Uint8Array
+  flush(): Uint8Array
+}
+
+const MULAW_BIAS = 0x84
+
+/** The upper bounds of the µ-law segments for biased 14-bit magnitudes */
+const MULAW_SEGMENT_ENDS = [0x3F, 0x7F, 0xFF, 0x1FF, 0x3FF, 0x7FF, 0xFFF, 0x1FFF]
+
+/** The upper bounds of the A-law segments for 13-bit magnitudes */
+const ALAW_SEGMENT_ENDS = [0x1F, 0x3F, 0x7F, 0xFF, 0x1FF, 0x3FF, 0x7FF, 0xFFF]
+
+const IMA_INDEX_TABLE = [-1, -1, -1, -1, 2, 4, 6, 8, -1, -1, -1, -1, 2, 4, 6, 8]
+
+const IMA_STEP_TABLE = [
+  7, 8, 9, 10, 11, 12, 13, 14, 16, 17, 19, 21, 23, 25, 28, 31, 34, 37, 41, 45, 50, 55, 60, 66, 73, 80, 88, 97, 107,
+  118, 130, 143, 157, 173, 190, 209, 230, 253, 279, 307, 337, 371, 408, 449, 494, 544, 598, 658, 724, 796, 876, 963,
+  1060, 1166, 1282, 1411, 1552, 1707, 1878, 2066, 2272, 2499, 2749, 3024, 3327, 3660, 4026, 4428, 4871, 5358, 5894,
+  6484, 7132, 7845, 8630, 9493, 10442, 11487, 12635, 13899, 15289, 16818, 18500, 20350, 22385, 24623, 27086, 29794,
+  32767
+]
+
+const clamp16 = (value: number) => Math.max(-32768, Math.min(32767, value))
+
+/**
+ * Encode a 16-bit sample with G.711 µ-law
+ *
+ * @param sample the sample, between -32768 and 32767
+ * @returns the encoded byte
+ */
+export const encodeMuLaw = (sample: number): number => {
+  let value = sample >> 2
+  let mask = 0xFF
+
+  if (value < 0) {
+    mask = 0x7F
+    value = -value
+  }
+
+  value = Math.min(value, 8159) + (MULAW_BIAS >> 2)
+
+  let segment = 0
+  while (segment < 8 && value > MULAW_SEGMENT_ENDS[segment]) {
+    segment++
+  }
+
+  if (segment === 8) {
+    return 0x7F ^ mask
+  }
+
+  return ((segment << 4) | ((value >> (segment + 1)) & 0x0F)) ^ mask
+}
+
+/**
+ * Decode a G.711 µ-law byte into a 16-bit sample
+ *
+ * @param byte the encoded byte
+ */
+export const decodeMuLaw = (byte: number): number => {
+  const value = ~byte & 0xFF
+  const exponent = (value >> 4) & 0x07
+  const magnitude = ((((value & 0x0F) << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS
+  return value & 0x80 ? -magnitude : magnitude
+}
+
+/**
+ * Encode a 16-bit sample with G.711 A-law
+ *
+ * @param sample the sample, between -32768 and 32767
+ * @returns the encoded byte
+ */
+export const encodeALaw = (sample: number): number => {
+  let value = sample >> 3
+  let mask = 0xD5
+
+  if (value < 0) {
+    mask = 0x55
+    value = -value - 1
+  }
+
+  let segment = 0
+  while (segment < 8 && value > ALAW_SEGMENT_ENDS[segment]) {
+    segment++
+  }
+
+  if (segment === 8) {
+    return 0x7F ^ mask
+  }
+
+  const mantissa = segment < 2 ? (value >> 1) & 0x0F : (value >> segment) & 0x0F
+  return ((segment << 4) | mantissa) ^ mask
+}
+
+/**
+ * Decode a G.711 A-law byte into a 16-bit sample
+ *
+ * @param byte the encoded byte
+ */
+export const decodeALaw = (byte: number): number => {
+  const value = byte ^ 0x55
+  const segment = (value & 0x70) >> 4
+  let magnitude = ((value & 0x0F) << 4) + (segment === 0 ? 8 : 0x108)
+
+  if (segment > 1) {
+    magnitude <<= segment - 1
+  }
+
+  return value & 0x80 ? magnitude : -magnitude
+}
+
+/** Get the number of frames in an IMA ADPCM block, the sample in the header of each channel included */
+export const getImaAdpcmSamplesPerBlock = (blockAlign: number, channels: number): number => {
+  if (blockAlign <= 4 * channels || (blockAlign - 4 * channels) % (4 * channels) !== 0) {
+    throw new RangeError(`invalid IMA ADPCM block size: ${blockAlign} bytes for ${channels} channels`)
+  }
+  return (blockAlign - 4 * channels) * 2 / channels + 1
+}
+
+/** Get the default IMA ADPCM block size, which is what most encoders use */
+export const getDefaultImaAdpcmBlockAlign = (channels: number): number => 256 * channels
+
+class ImaAdpcmChannel {
+  predictor: number = 0
+  index: number = 0
+
+  encode(sample: number) {
+    let step = IMA_STEP_TABLE[this.index]
+    let difference = sample - this.predictor
+    let nibble = 0
+
+    if (difference < 0) {
+      nibble = 8
+      difference = -difference
+    }
+
+    let delta = step >> 3
+    for (let bit = 4; bit > 0; bit >>= 1) {
+      if (difference >= step) {
+        nibble |= bit
+        difference -= step
+        delta += step
+      }
+      step >>= 1
+    }
+
+    this._update(nibble, delta)
+    return nibble
+  }
+
+  decode(nibble: number) {
+    const step = IMA_STEP_TABLE[this.index]
+    let delta = step >> 3
+
+    if (nibble & 4) {
+      delta += step
+    }
+    if (nibble & 2) {
+      delta += step >> 1
+    }
+    if (nibble & 1) {
+      delta += step >> 2
+    }
+
+    this._update(nibble, delta)
+    return this.predictor
+  }
+
+  private _update(nibble: number, delta: number) {
+    this.predictor = clamp16(nibble & 8 ? this.predictor - delta : this.predictor + delta)
+    this.index = Math.max(0, Math.min(88, this.index + IMA_INDEX_TABLE[nibble]))
+  }
+}
+
+/** Collect whole units of `size` bytes across the calls, handing the rest over on the next call */
+class BlockCollector {
+  private _size: number
+  private _pending: Uint8Array
+
+  constructor(size: number) {
+    this._size = size
+    this._pending = new Uint8Array(0)
+  }
+
+  take(data: Uint8Array) {
+    const joined = new Uint8Array(this._pending.byteLength + data.byteLength)
+    joined.set(this._pending, 0)
+    joined.set(data, this._pending.byteLength)
+
+    const length = joined.byteLength - joined.byteLength % this._size
+    this._pending = joined.slice(length)
+    return joined.subarray(0, length)
+  }
+
+  rest() {
+    const rest = this._pending
+    this._pending = new Uint8Array(0)
+    return rest
+  }
+}
+
+const createG711Encoder = (encode: (sample: number) => number): CodecProcessor => {
+  const collector = new BlockCollector(2)
+  const process = (data: Uint8Array) => {
+    const samples = collector.take(data)
+    const view = new DataView(samples.buffer, samples.byteOffset, samples.byteLength)
+    const encoded = new Uint8Array(samples.byteLength / 2)
+    for (let i = 0; i < encoded.byteLength; i++) {
+      encoded[i] = encode(view.getInt16(i * 2, isHostLittleEndian))
+    }
+    return encoded
+  }
+
+  return { process, flush: () => new Uint8Array(0) }
+}
+
+const createG711Decoder = (decode: (byte: number) => number): CodecProcessor => {
+  const process = (data: Uint8Array) => {
+    const decoded = new Uint8Array(data.byteLength * 2)
+    const view = new DataView(decoded.buffer)
+    for (let i = 0; i < data.byteLength; i++) {
+      view.setInt16(i * 2, decode(data[i]), isHostLittleEndian)
+    }
+    return decoded
+  }
+
+  return { process, flush: () => new Uint8Array(0) }
+}
+
+const createImaAdpcmEncoder = (channels: number, blockAlign: number): CodecProcessor => {
+  const samplesPerBlock = getImaAdpcmSamplesPerBlock(blockAlign, channels)
+  const states = Array.from({ length: channels }, () => new ImaAdpcmChannel())
+  const collector = new BlockCollector(samplesPerBlock * channels * 2)
+
+  const encodeBlock = (samples: DataView, target: Uint8Array) => {
+    const view = new DataView(target.buffer, target.byteOffset, target.byteLength)
+    const sampleAt = (frame: number, channel: number) => samples.getInt16((frame * channels + channel) * 2, isHostLittleEndian)
+
+    for (let channel = 0; channel < channels; channel++) {
+      const state = states[channel]
+      state.predictor = sampleAt(0, channel)
+      view.setInt16(channel * 4, state.predictor, true)
+      view.setUint8(channel * 4 + 2, state.index)
+      view.setUint8(channel * 4 + 3, 0)
+    }
+
+    for (let frame = 1, offset = 4 * channels; frame < samplesPerBlock; frame += 8) {
+      for (let channel = 0; channel < channels; channel++, offset += 4) {
+        for (let i = 0; i < 8; i++) {
+          const nibble = states[channel].encode(sampleAt(frame + i, channel))
+          target[offset + (i >> 1)] |= i % 2 === 0 ? nibble : nibble << 4
+        }
+      }
+    }
+  }
+
+  const process = (data: Uint8Array) => {
+    const samples = collector.take(data)
+    const blocks = samples.byteLength / (samplesPerBlock * channels * 2)
+    const encoded = new Uint8Array(blocks * blockAlign)
+
+    for (let block = 0; block < blocks; block++) {
+      const offset = block * samplesPerBlock * channels * 2
+      encodeBlock(new DataView(samples.buffer, samples.byteOffset + offset, samplesPerBlock * channels * 2), encoded.subarray(block * blockAlign))
+    }
+
+    return encoded
+  }
+
+  const flush = () => {
+    const rest = collector.rest()
+    const frameSize = channels * 2
+    const frames = Math.floor(rest.byteLength / frameSize)
+
+    if (frames === 0) {
+      return new Uint8Array(0)
+    }
+
+    const padded = new Uint8Array(samplesPerBlock * frameSize)
+    padded.set(rest.subarray(0, frames * frameSize), 0)
+    for (let frame = frames; frame < samplesPerBlock; frame++) {
+      padded.copyWithin(frame * frameSize, (frames - 1) * frameSize, frames * frameSize)
+    }
+
+    return process(padded)
+  }
+
+  return { process, flush }
+}
+
+const createImaAdpcmDecoder = (channels: number, blockAlign: number): CodecProcessor => {
+  getImaAdpcmSamplesPerBlock(blockAlign, channels)
+
+  const states = Array.from({ length: channels }, () => new ImaAdpcmChannel())
+  const collector = new BlockCollector(blockAlign)
+
+  /** Decode a whole or a truncated block, the last block of a file may be shorter */
+  const decodeBlock = (block: Uint8Array) => {
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength)
+    const frames = 1 + Math.floor((block.byteLength - 4 * channels) / (4 * channels)) * 8
+    const decoded = new Uint8Array(frames * channels * 2)
+    const target = new DataView(decoded.buffer)
+
+    for (let channel = 0; channel < channels; channel++) {
+      const state = states[channel]
+      state.predictor = view.getInt16(channel * 4, true)
+      state.index = Math.min(88, view.getUint8(channel * 4 + 2))
+      target.setInt16(channel * 2, state.predictor, isHostLittleEndian)
+    }
+
+    for (let frame = 1, offset = 4 * channels; frame < frames; frame += 8) {
+      for (let channel = 0; channel < channels; channel++, offset += 4) {
+        for (let i = 0; i < 8; i++) {
+          const byte = block[offset + (i >> 1)]
+          const sample = states[channel].decode(i % 2 === 0 ? byte & 0x0F : byte >> 4)
+          target.setInt16(((frame + i) * channels + channel) * 2, sample, isHostLittleEndian)
+        }
+      }
+    }
+
+    return decoded
+  }
+
+  const decodeBlocks = (blocks: Uint8Array[]) => {
+    const decoded = blocks.map(decodeBlock)
+    const joined = new Uint8Array(decoded.reduce((length, block) => length + block.byteLength, 0))
+    decoded.reduce((offset, block) => {
+      joined.set(block, offset)
+      return offset + block.byteLength
+    }, 0)
+    return joined
+  }
+
+  const process = (data: Uint8Array) => {
+    const blocks = collector.take(data)
+    const list: Uint8Array[] = []
+    for (let offset = 0; offset < blocks.byteLength; offset += blockAlign) {
+      list.push(blocks.subarray(offset, offset + blockAlign))
+    }
+    return decodeBlocks(list)
+  }
+
+  const flush = () => {
+    const rest = collector.rest()
+    return rest.byteLength >= 4 * channels ? decodeBlocks([rest]) : new Uint8Array(0)
+  }
+
+  return { process, flush }
+}
+
+/**
+ * Create the encoding side of a codec, used by {@link AudioEncoder} and {@link WavWriter | `WavWriter`}
+ *
+ * @private
+ */
+export const createEncoder = (options: AudioCodecOptions): CodecProcessor => {
+  switch (options.codec) {
+    case 'mulaw': return createG711Encoder(encodeMuLaw)
+    case 'alaw': return createG711Encoder(encodeALaw)
+    case 'ima-adpcm': return createImaAdpcmEncoder(options.channels, options.blockAlign || getDefaultImaAdpcmBlockAlign(options.channels))
+  }
+  throw new TypeError(`unsupported codec: ${options.codec}`)
+}
+
+/**
+ * Create the decoding side of a codec, used by {@link AudioDecoder} and {@link WavReader | `WavReader`}
+ *
+ * @private
+ */
+export const createDecoder = (options: AudioCodecOptions): CodecProcessor => {
+  switch (options.codec) {
+    case 'mulaw': return createG711Decoder(decodeMuLaw)
+    case 'alaw': return createG711Decoder(decodeALaw)
+    case 'ima-adpcm': return createImaAdpcmDecoder(options.channels, options.blockAlign || getDefaultImaAdpcmBlockAlign(options.channels))
+  }
+  throw new TypeError(`unsupported codec: ${options.codec}`)
+}
+
+/**
+ * Class that encodes 16-bit samples ({@link RtAudioFormat | `RtAudioFormat.RTAUDIO_SINT16`}, interleaved, host byte
+ * order) with a telephony codec, see {@link AudioCodec}:
+ *
+ * ```javascript
+ * pipeline(
+ *   new AudioInputStream({ deviceId, channels: 1, sampleRate: 8000, bufferFrames: 160, format: RtAudioFormat.RTAUDIO_SINT16 }),
+ *   new AudioEncoder({ codec: 'mulaw', channels: 1 }),
+ *   socket
+ * )
+ * ```
+ *
+ * The IMA ADPCM output consists of the blocks of {@link AudioCodecOptions | `options.blockAlign`} bytes that WAV
+ * files use, each starting with the state of the encoder, so a block can be decoded on its own. The last partial
+ * block is padded by repeating the last frame when the stream ends.
+ */
+export class AudioEncoder extends Transform {
+  private _processor: CodecProcessor
+
+  /**
+   * Create an encoder
+   *
+   * @param options options for the codec
+   */
+  constructor(options: AudioCodecOptions) {
+    super()
+
+    this._processor = createEncoder(options)
+  }
+
+  /** @private */
+  _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const encoded = this._processor.process(chunk)
+    callback(null, encoded.byteLength > 0 ? encoded : undefined)
+  }
+
+  /** @private */
+  _flush(callback: TransformCallback): void {
+    const encoded = this._processor.flush()
+    callback(null, encoded.byteLength > 0 ? encoded : undefined)
+  }
+}
+
+/**
+ * Class that decodes audio encoded with a telephony codec (see {@link AudioCodec}) into 16-bit samples
+ * ({@link RtAudioFormat | `RtAudioFormat.RTAUDIO_SINT16`}, interleaved, host byte order), which can be written to an
+ * {@link AudioOutputStream | `AudioOutputStream`} right away:
+ *
+ * ```javascript
+ * pipeline(
+ *   socket,
+ *   new AudioDecoder({ codec: 'alaw', channels: 1 }),
+ *   new AudioOutputStream({ deviceId, channels: 1, sampleRate: 8000, bufferFrames: 160, format: RtAudioFormat.RTAUDIO_SINT16 })
+ * )
+ * ```
+ *
+ * The IMA ADPCM input is expected in the blocks of {@link AudioCodecOptions | `options.blockAlign`} bytes that WAV
+ * files use. A last block shorter than that is decoded as far as it goes when the stream ends.
+ */
+export class AudioDecoder extends Transform {
+  private _processor: CodecProcessor
+
+  /**
+   * Create a decoder
+   *
+   * @param options options for the codec
+   */
+  constructor(options: AudioCodecOptions) {
+    super()
+
+    this._processor = createDecoder(options)
+  }
+
+  /** @private */
+  _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const decoded = this._processor.process(chunk)
+    callback(null, decoded.byteLength > 0 ? decoded : undefined)
+  }
+
+  /** @private */
+  _flush(callback: TransformCallback): void {
+    const decoded = this._processor.flush()
+    callback(null, decoded.byteLength > 0 ? decoded : undefined)
+  }
+}
@@ -1,4 +1,5 @@
-import { RtAudioErrorType, RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { RtAudioErrorType, RtAudioFormat, RtAudioStreamFlags, StreamOptions } from '@hamitzor/rtaudio.js'
+import { endianness } from 'os'
 
 export const rtAudioFormatToByteCount = (format: RtAudioFormat) => {
   switch (format) {
@@ -25,3 +26,73 @@ export const getReadableErrorMessage = (errType: RtAudioErrorType, message: stri
     case RtAudioErrorType.WARNING: return `WARNING: ${message}`
   }
 }
+
+export const isHostLittleEndian = endianness() === 'LE'
+
+export const isNonInterleaved = (options?: StreamOptions | null) =>
+  ((options && options.flags) || 0) & RtAudioStreamFlags.RTAUDIO_NONINTERLEAVED ? true : false
+
+/** Convert a non-interleaved block (channels back-to-back) into an interleaved one */
+export const interleave = (block: Uint8Array, channels: number, byteCount: number) => {
+  const frames = Math.floor(block.byteLength / (channels * byteCount))
+  const interleaved = new Uint8Array(frames * channels * byteCount)
+
+  for (let channel = 0; channel < channels; channel++) {
+    for (let frame = 0; frame < frames; frame++) {
+      const from = (channel * frames + frame) * byteCount
+      interleaved.set(block.subarray(from, from + byteCount), (frame * channels + channel) * byteCount)
+    }
+  }
+
+  return interleaved
+}
+
+/** Convert an interleaved block into a non-interleaved one (channels back-to-back) */
+export const deinterleave = (block: Uint8Array, channels: number, byteCount: number) => {
+  const frames = Math.floor(block.byteLength / (channels * byteCount))
+  const deinterleaved = new Uint8Array(frames * channels * byteCount)
+
+  for (let channel = 0; channel < channels; channel++) {
+    for (let frame = 0; frame < frames; frame++) {
+      const from = (frame * channels + channel) * byteCount
+      deinterleaved.set(block.subarray(from, from + byteCount), (channel * frames + frame) * byteCount)
+    }
+  }
+
+  return deinterleaved
+}
+
+/**
+ * Pad the partial block at the start of `block` with silence up to the whole `block`, in place. The channels of a
+ * non-interleaved block are padded one by one, so that each of them stays in its own plane.
+ */
+export const padBlock = (block: Uint8Array, length: number, channels: number, byteCount: number, nonInterleaved: boolean) => {
+  if (!nonInterleaved) {
+    block.fill(0, length)
+    return block
+  }
+
+  const planeLength = Math.floor(length / (channels * byteCount)) * byteCount
+  const paddedPlaneLength = block.byteLength / channels
+
+  // the last plane moves the furthest, so moving it first never overwrites a plane that is yet to move
+  for (let channel = channels - 1; channel >= 0; channel--) {
+    block.copyWithin(channel * paddedPlaneLength, channel * planeLength, (channel + 1) * planeLength)
+    block.fill(0, channel * paddedPlaneLength + planeLength, (channel + 1) * paddedPlaneLength)
+  }
+
+  return block
+}
+
+/** Reverse the byte order of each sample in place */
+export const swapBytes = (data: Uint8Array, byteCount: number) => {
+  for (let offset = 0; offset + byteCount <= data.byteLength; offset += byteCount) {
+    for (let i = 0, j = byteCount - 1; i < j; i++, j--) {
+      const byte = data[offset + i]
+      data[offset + i] = data[offset + j]
+      data[offset + j] = byte
+    }
+  }
+
+  return data
+}
@@ -0,0 +1,178 @@
+import { EventEmitter } from 'events'
+import { DeviceInfo, RtAudioApi } from '@hamitzor/rtaudio.js'
+import { AudioBackend, AudioBackendFactory, rtAudioBackend } from './backend'
+
+export type DeviceWatcherOptions = {
+  /** the audio API to watch (An available API will be used if omitted) */
+  api?: RtAudioApi
+
+  /** the backend to query (default=`RtAudio`) */
+  backend?: AudioBackendFactory
+
+  /** the polling interval in milliseconds (default=1000) */
+  interval?: number
+}
+
+/** The payload of the `defaultchanged` event of a {@link DeviceWatcher} */
+export type DefaultDeviceChange = {
+  /** whether the default input or the default output device has changed */
+  kind: 'input' | 'output'
+
+  /** the new default device, `undefined` if there is none */
+  device?: DeviceInfo
+
+  /** the previous default device, `undefined` if there was none */
+  previous?: DeviceInfo
+}
+
+const isSameDevice = (a: DeviceInfo, b: DeviceInfo) => a.id === b.id && a.name === b.name
+
+/**
+ * Class that watches the devices of an audio API and emits an event when a device is added or removed, e.g. a USB
+ * headset is plugged in, or when the default input or output device changes:
+ *
+ * ```javascript
+ * const watcher = new DeviceWatcher()
+ *
+ * watcher.on('deviceadded', device => console.log(`${device.name} is plugged in`))
+ * watcher.on('deviceremoved', device => console.log(`${device.name} is unplugged`))
+ * watcher.on('defaultchanged', ({ kind, device }) => console.log(`the default ${kind} device is ${device?.name}`))
+ * ```
+ *
+ * As the audio APIs don't notify such changes, the devices are polled at {@link DeviceWatcherOptions | `options.interval`}.
+ * {@link check} can be called to poll them right away. The polling doesn't keep the process alive, and it stops
+ * once {@link close} is called.
+ */
+export class DeviceWatcher extends EventEmitter {
+  private _rtAudio: AudioBackend
+  private _devices: DeviceInfo[]
+  private _defaultInputDevice: DeviceInfo | undefined
+  private _defaultOutputDevice: DeviceInfo | undefined
+  private _timer: ReturnType<typeof setInterval> | null
+
+  /**
+   * Create a device watcher, which starts polling right away
+   *
+   * @param options options for the watcher
+   */
+  constructor(options: DeviceWatcherOptions = {}) {
+    super()
+
+    this._rtAudio = (options.backend || rtAudioBackend)(options.api)
+    this._devices = this._rtAudio.getDevices()
+    this._defaultInputDevice = this._findDefault(this._rtAudio.getDefaultInputDevice())
+    this._defaultOutputDevice = this._findDefault(this._rtAudio.getDefaultOutputDevice())
+    this._timer = setInterval(() => this.check(), options.interval || 1000)
+    this._timer.unref()
+  }
+
+  /** Get the devices seen on the last poll */
+  get devices(): DeviceInfo[] { return this._devices.slice() }
+
+  /** Get the default input device seen on the last poll */
+  get defaultInputDevice(): DeviceInfo | undefined { return this._defaultInputDevice }
+
+  /** Get the default output device seen on the last poll */
+  get defaultOutputDevice(): DeviceInfo | undefined { return this._defaultOutputDevice }
+
+  /** Whether the watcher is closed */
+  get closed(): boolean { return this._timer === null }
+
+  /** Poll the devices now, emitting the events for the changes since the last poll */
+  check(): void {
+    const previous = this._devices
+    const previousInput = this._defaultInputDevice
+    const previousOutput = this._defaultOutputDevice
+
+    this._devices = this._rtAudio.getDevices()
+    this._defaultInputDevice = this._findDefault(this._rtAudio.getDefaultInputDevice())
+    this._defaultOutputDevice = this._findDefault(this._rtAudio.getDefaultOutputDevice())
+
+    previous
+      .filter(device => !this._devices.find(other => isSameDevice(device, other)))
+      .forEach(device => this.emit('deviceremoved', device))
+
+    this._devices
+      .filter(device => !previous.find(other => isSameDevice(device, other)))
+      .forEach(device => this.emit('deviceadded', device))
+
+    if (!this._isSameDefault(previousInput, this._defaultInputDevice)) {
+      this.emit('defaultchanged', { kind: 'input', device: this._defaultInputDevice, previous: previousInput })
+    }
+
+    if (!this._isSameDefault(previousOutput, this._defaultOutputDevice)) {
+      this.emit('defaultchanged', { kind: 'output', device: this._defaultOutputDevice, previous: previousOutput })
+    }
+  }
+
+  /** Stop polling */
+  close(): void {
+    if (this._timer) {
+      clearInterval(this._timer)
+      this._timer = null
+    }
+  }
+
+  private _findDefault(id: number) {
+    return this._devices.find(device => device.id === id)
+  }
+
+  private _isSameDefault(a: DeviceInfo | undefined, b: DeviceInfo | undefined) {
+    return a && b ? isSameDevice(a, b) : a === b
+  }
+
+  /** @ignore */
+  on(event: 'deviceadded', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  on(event: 'deviceremoved', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  on(event: 'defaultchanged', listener: (change: DefaultDeviceChange) => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'deviceadded', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  addListener(event: 'deviceremoved', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  addListener(event: 'defaultchanged', listener: (change: DefaultDeviceChange) => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'deviceadded', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  once(event: 'deviceremoved', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  once(event: 'defaultchanged', listener: (change: DefaultDeviceChange) => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'deviceadded', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  removeListener(event: 'deviceremoved', listener: (device: DeviceInfo) => void): this
+  /** @ignore */
+  removeListener(event: 'defaultchanged', listener: (change: DefaultDeviceChange) => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'deviceadded', device: DeviceInfo): boolean
+  /** @ignore */
+  emit(event: 'deviceremoved', device: DeviceInfo): boolean
+  /** @ignore */
+  emit(event: 'defaultchanged', change: DefaultDeviceChange): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+}
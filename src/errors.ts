@@ -0,0 +1,119 @@
+import { RtAudioApi, RtAudioErrorType } from '@hamitzor/rtaudio.js'
+import { getReadableErrorMessage } from './common'
+
+/** Where an error comes from */
+export type SonanceErrorDetails = {
+  /** the type reported by `RtAudio` */
+  type: RtAudioErrorType
+
+  /** the id of the device the stream was opened on, if it is known */
+  deviceId?: number
+
+  /** the audio API the stream was opened with, if one was given */
+  api?: RtAudioApi
+}
+
+/**
+ * The base class of the errors emitted and thrown by the library. Check for a subclass, e.g.
+ * `error instanceof DriverError`, or for {@link fatal} to decide how to handle an error:
+ *
+ * ```javascript
+ * audioStream.on('error', error => {
+ *   if (error instanceof SonanceError && !error.fatal) {
+ *     console.warn(error.message)
+ *     return
+ *   }
+ *   reopen()
+ * })
+ * ```
+ */
+export class SonanceError extends Error {
+  /** the type reported by `RtAudio` */
+  readonly type: RtAudioErrorType
+  /** the id of the device the stream was opened on, if it is known */
+  readonly deviceId?: number
+  /** the audio API the stream was opened with, if one was given */
+  readonly api?: RtAudioApi
+
+  /**
+   * Create an error
+   *
+   * @param message the error message
+   * @param details where the error comes from
+   */
+  constructor(message: string, details: SonanceErrorDetails) {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+
+    this.name = new.target.name
+    this.type = details.type
+    this.deviceId = details.deviceId
+    this.api = details.api
+  }
+
+  /** Whether the stream can't go on after the error, e.g. the device is gone */
+  get fatal(): boolean {
+    return this.type !== RtAudioErrorType.WARNING &&
+      this.type !== RtAudioErrorType.DEBUG_WARNING &&
+      this.type !== RtAudioErrorType.INVALID_USE
+  }
+
+  /** Whether the stream goes on after the error, e.g. a method was called in the wrong state */
+  get recoverable(): boolean { return !this.fatal }
+}
+
+/** A warning, emitted through the `warning` event of the streams once enabled with `enableWarnings` */
+export class SonanceWarning extends SonanceError { }
+
+/** The device is invalid or missing (`INVALID_DEVICE`, `NO_DEVICES_FOUND`) */
+export class DeviceError extends SonanceError { }
+
+/** The driver or the operating system failed (`DRIVER_ERROR`, `SYSTEM_ERROR`) */
+export class DriverError extends SonanceError { }
+
+/** A parameter is not supported (`INVALID_PARAMETER`) */
+export class InvalidParameterError extends SonanceError { }
+
+/** A method was called when the stream is not in the right state (`INVALID_USE`) */
+export class InvalidUseError extends SonanceError { }
+
+/** Memory couldn't be allocated (`MEMORY_ERROR`) */
+export class MemoryError extends SonanceError { }
+
+/** The realtime thread couldn't be created or failed (`THREAD_ERROR`) */
+export class ThreadError extends SonanceError { }
+
+/**
+ * Create the error of the matching class for an error reported by `RtAudio`
+ *
+ * @param type the type reported by `RtAudio`
+ * @param message the message reported by `RtAudio`
+ * @param deviceId the id of the device the stream was opened on
+ * @param api the audio API the stream was opened with
+ */
+export const createError = (type: RtAudioErrorType, message: string, deviceId?: number, api?: RtAudioApi): SonanceError => {
+  const readableMessage = getReadableErrorMessage(type, message) || message
+  const details = { type, deviceId, api }
+
+  switch (type) {
+    case RtAudioErrorType.WARNING:
+    case RtAudioErrorType.DEBUG_WARNING:
+      return new SonanceWarning(readableMessage, details)
+    case RtAudioErrorType.INVALID_DEVICE:
+    case RtAudioErrorType.NO_DEVICES_FOUND:
+      return new DeviceError(readableMessage, details)
+    case RtAudioErrorType.DRIVER_ERROR:
+    case RtAudioErrorType.SYSTEM_ERROR:
+      return new DriverError(readableMessage, details)
+    case RtAudioErrorType.INVALID_PARAMETER:
+      return new InvalidParameterError(readableMessage, details)
+    case RtAudioErrorType.INVALID_USE:
+      return new InvalidUseError(readableMessage, details)
+    case RtAudioErrorType.MEMORY_ERROR:
+      return new MemoryError(readableMessage, details)
+    case RtAudioErrorType.THREAD_ERROR:
+      return new ThreadError(readableMessage, details)
+  }
+
+  return new SonanceError(readableMessage, details)
+}
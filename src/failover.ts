@@ -0,0 +1,204 @@
+import { DeviceInfo, RtAudioErrorType } from '@hamitzor/rtaudio.js'
+import { DefaultDeviceChange, DeviceWatcher } from './device-watcher'
+import { AudioIOParams, FailoverParams } from './types'
+
+/**
+ * Why a stream switched devices:
+ *
+ *  - `lost`: the device was removed or failed
+ *  - `default`: the default device changed, with {@link FailoverParams | `failover.followDefault`}
+ *  - `preferred`: a device higher in {@link FailoverParams | `failover.preferredDevices`} became available
+ */
+export type FailoverReason = 'lost' | 'default' | 'preferred'
+
+/** The payload of the `failover` event of the streams */
+export type FailoverEvent = {
+  /** the device the stream is now open on */
+  device: DeviceInfo
+
+  /** the device the stream was open on, `undefined` if it is unknown */
+  previous?: DeviceInfo
+
+  /** why the stream switched devices */
+  reason: FailoverReason
+}
+
+/** Whether an error reported by the backend means the device is gone or unusable */
+export const isDeviceError = (type: RtAudioErrorType) =>
+  type === RtAudioErrorType.INVALID_DEVICE || type === RtAudioErrorType.NO_DEVICES_FOUND ||
+  type === RtAudioErrorType.DRIVER_ERROR || type === RtAudioErrorType.SYSTEM_ERROR
+
+/**
+ * Picks the device a stream should run on as the devices change, and asks the stream to reopen on it.
+ * It is used by {@link AudioInputStream | `AudioInputStream`} and {@link AudioOutputStream | `AudioOutputStream`}
+ * when {@link AudioIOParams | `params.failover`} is given.
+ */
+export class DeviceFailover {
+  private _kind: 'input' | 'output'
+  private _channels: number
+  private _preferredDevices: (number | string)[]
+  private _followDefault: boolean
+  private _watcher: DeviceWatcher
+  private _ownsWatcher: boolean
+  private _device: DeviceInfo | undefined
+  private _isLost: boolean
+  private _isSwitching: boolean
+  private _reopen: (device: DeviceInfo | null) => boolean
+  private _onSwitch: (event: FailoverEvent) => void
+  private _onDeviceAdded: (device: DeviceInfo) => void
+  private _onDeviceRemoved: (device: DeviceInfo) => void
+  private _onDefaultChanged: (change: DefaultDeviceChange) => void
+
+  /**
+   * Create a failover for a stream
+   *
+   * @param kind whether the stream captures or plays audio
+   * @param params the parameters of the stream
+   * @param reopen reopens the stream on the given device, or only closes it if `null`, returns whether it is open
+   * @param onSwitch called once the stream is reopened on another device
+   */
+  constructor(
+    kind: 'input' | 'output',
+    params: AudioIOParams,
+    reopen: (device: DeviceInfo | null) => boolean,
+    onSwitch: (event: FailoverEvent) => void
+  ) {
+    const failover: FailoverParams = typeof params.failover === 'object' ? params.failover : {}
+
+    this._kind = kind
+    this._channels = (params.firstChannel || 0) + params.channels
+    this._preferredDevices = failover.preferredDevices || []
+    this._followDefault = failover.followDefault || false
+    this._watcher = failover.watcher || new DeviceWatcher({ api: params.api, backend: params.backend })
+    this._ownsWatcher = !failover.watcher
+    this._device = this._watcher.devices.find(({ id }) => id === params.deviceId)
+    this._isLost = false
+    this._isSwitching = false
+    this._reopen = reopen
+    this._onSwitch = onSwitch
+    this._onDeviceAdded = device => this._deviceAdded(device)
+    this._onDeviceRemoved = device => this._deviceRemoved(device)
+    this._onDefaultChanged = change => this._defaultChanged(change)
+
+    this._watcher.on('deviceadded', this._onDeviceAdded)
+    this._watcher.on('deviceremoved', this._onDeviceRemoved)
+    this._watcher.on('defaultchanged', this._onDefaultChanged)
+  }
+
+  /** Whether the device is lost and no other device could be opened yet */
+  get isLost(): boolean { return this._isLost }
+
+  /** Report that the device failed, the stream is reopened on another device if there is one */
+  fail(): void {
+    if (this._isSwitching) {
+      return
+    }
+
+    const device = this._device
+
+    this._watcher.check()
+
+    if (this._device === device && !this._isLost) {
+      this._switch('lost', device ? [device.id] : [])
+    }
+  }
+
+  /** Stop watching the devices */
+  close(): void {
+    this._watcher.removeListener('deviceadded', this._onDeviceAdded)
+    this._watcher.removeListener('deviceremoved', this._onDeviceRemoved)
+    this._watcher.removeListener('defaultchanged', this._onDefaultChanged)
+
+    if (this._ownsWatcher) {
+      this._watcher.close()
+    }
+  }
+
+  private _deviceAdded(device: DeviceInfo) {
+    if (this._isLost) {
+      this._switch('lost', [])
+      return
+    }
+
+    const rank = this._rank(device)
+
+    if (rank >= 0 && (!this._device || this._rank(this._device) < 0 || rank < this._rank(this._device)) && this._fits(device)) {
+      this._switch('preferred', [])
+    }
+  }
+
+  private _deviceRemoved(device: DeviceInfo) {
+    if (this._device && this._device.id === device.id) {
+      this._switch('lost', [device.id])
+    }
+  }
+
+  private _defaultChanged(change: DefaultDeviceChange) {
+    if (change.kind !== this._kind) {
+      return
+    }
+
+    if (this._isLost) {
+      this._switch('lost', [])
+    } else if (this._followDefault && change.device && (!this._device || change.device.id !== this._device.id)) {
+      this._switch('default', [], change.device)
+    }
+  }
+
+  /** Reopen the stream on `target` or the best available device, trying the next one if it fails to open */
+  private _switch(reason: FailoverReason, excluded: number[], target?: DeviceInfo) {
+    this._isSwitching = true
+
+    for (; ;) {
+      const device = target && excluded.indexOf(target.id) < 0 && this._fits(target) ? target : this._pick(excluded)
+
+      if (!device) {
+        this._reopen(null)
+        this._isLost = true
+        break
+      }
+
+      if (this._reopen(device)) {
+        const previous = this._device
+        this._device = device
+        this._isLost = false
+        this._onSwitch({ device, previous, reason })
+        break
+      }
+
+      excluded.push(device.id)
+    }
+
+    this._isSwitching = false
+  }
+
+  /** Get the first available preferred device, or the default device if there is none */
+  private _pick(excluded: number[]) {
+    const devices = this._watcher.devices.filter(device => excluded.indexOf(device.id) < 0 && this._fits(device))
+    const preferred = devices
+      .filter(device => this._rank(device) >= 0)
+      .sort((a, b) => this._rank(a) - this._rank(b))[0]
+
+    return preferred || devices.find(device => this._isDefault(device))
+  }
+
+  /** Get the index of the device in the preferred devices, -1 if it is not preferred */
+  private _rank(device: DeviceInfo) {
+    for (let i = 0; i < this._preferredDevices.length; i++) {
+      const preferred = this._preferredDevices[i]
+      if (preferred === device.id || preferred === device.name) {
+        return i
+      }
+    }
+    return -1
+  }
+
+  private _fits(device: DeviceInfo) {
+    return (this._kind === 'input' ? device.inputChannels : device.outputChannels) >= this._channels
+  }
+
+  private _isDefault(device: DeviceInfo | undefined) {
+    const defaultDevice = this._kind === 'input' ? this._watcher.defaultInputDevice : this._watcher.defaultOutputDevice
+    return !!device && !!defaultDevice && device.id === defaultDevice.id
+  }
+}
@@ -0,0 +1,118 @@
+/** The window functions that can be applied before a transform */
+export type WindowFunction = 'rectangular' | 'hann' | 'hamming' | 'blackman'
+
+/**
+ * Create the coefficients of a window function
+ *
+ * @param type the window function
+ * @param size the number of coefficients
+ */
+export const createWindow = (type: WindowFunction, size: number): Float64Array => {
+  const window = new Float64Array(size)
+
+  for (let i = 0; i < size; i++) {
+    const phase = 2 * Math.PI * i / Math.max(1, size - 1)
+    switch (type) {
+      case 'rectangular':
+        window[i] = 1
+        break
+      case 'hann':
+        window[i] = 0.5 - 0.5 * Math.cos(phase)
+        break
+      case 'hamming':
+        window[i] = 0.54 - 0.46 * Math.cos(phase)
+        break
+      case 'blackman':
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase)
+        break
+    }
+  }
+
+  return window
+}
+
+/** Whether `size` is a power of two */
+export const isPowerOfTwo = (size: number) => size > 0 && (size & (size - 1)) === 0
+
+/**
+ * Compute the discrete Fourier transform in place with the iterative radix-2 algorithm
+ *
+ * @param real the real parts, its length should be a power of two
+ * @param imaginary the imaginary parts, of the same length
+ */
+export const fft = (real: Float64Array, imaginary: Float64Array): void => {
+  const size = real.length
+
+  if (!isPowerOfTwo(size) || imaginary.length !== size) {
+    throw new RangeError('the size of the transform should be a power of two')
+  }
+
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+
+    if (i < j) {
+      let swap = real[i]
+      real[i] = real[j]
+      real[j] = swap
+      swap = imaginary[i]
+      imaginary[i] = imaginary[j]
+      imaginary[j] = swap
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = -2 * Math.PI / length
+    const stepReal = Math.cos(angle)
+    const stepImaginary = Math.sin(angle)
+
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1
+      let twiddleImaginary = 0
+
+      for (let k = 0; k < length / 2; k++) {
+        const even = start + k
+        const odd = even + length / 2
+        const oddReal = real[odd] * twiddleReal - imaginary[odd] * twiddleImaginary
+        const oddImaginary = real[odd] * twiddleImaginary + imaginary[odd] * twiddleReal
+
+        real[odd] = real[even] - oddReal
+        imaginary[odd] = imaginary[even] - oddImaginary
+        real[even] += oddReal
+        imaginary[even] += oddImaginary
+
+        const nextTwiddleReal = twiddleReal * stepReal - twiddleImaginary * stepImaginary
+        twiddleImaginary = twiddleReal * stepImaginary + twiddleImaginary * stepReal
+        twiddleReal = nextTwiddleReal
+      }
+    }
+  }
+}
+
+/**
+ * Compute the power (squared magnitude) of each bin of the transform of a real signal, from DC up to Nyquist
+ *
+ * @param samples the signal, its length should be a power of two
+ * @param window the coefficients to multiply the signal with, of the same length (optional)
+ */
+export const powerSpectrum = (samples: ArrayLike<number>, window?: Float64Array): Float64Array => {
+  const size = samples.length
+  const real = new Float64Array(size)
+  const imaginary = new Float64Array(size)
+
+  for (let i = 0; i < size; i++) {
+    real[i] = window ? samples[i] * window[i] : samples[i]
+  }
+
+  fft(real, imaginary)
+
+  const power = new Float64Array(size / 2 + 1)
+  for (let i = 0; i < power.length; i++) {
+    power[i] = real[i] * real[i] + imaginary[i] * imaginary[i]
+  }
+
+  return power
+}
@@ -0,0 +1,108 @@
+import { Transform, TransformCallback } from 'stream'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isHostLittleEndian, rtAudioFormatToByteCount } from './common'
+import { readSample, writeSample } from './samples'
+
+export type FormatConverterOptions = {
+  /** the format of the incoming samples, which are expected in host byte order as `RtAudio` delivers them */
+  from: RtAudioFormat
+
+  /** the format of the outgoing samples */
+  to: RtAudioFormat
+
+  /** the byte order of the outgoing samples (default=host byte order) */
+  endianness?: 'LE' | 'BE'
+
+  /** add triangular dither when the resolution is reduced, e.g. from float to 16-bit (default=false) */
+  dither?: boolean
+}
+
+const isIntegerFormat = (format: RtAudioFormat) =>
+  format === RtAudioFormat.RTAUDIO_SINT8 || format === RtAudioFormat.RTAUDIO_SINT16 || format === RtAudioFormat.RTAUDIO_SINT32
+
+/**
+ * Class that converts samples from one {@link RtAudioFormat | `RtAudioFormat`} to another. It allows opening
+ * a device in its native format and handing the downstream exactly the format it expects:
+ *
+ * ```javascript
+ * pipeline(
+ *   new AudioInputStream({ ...params, format: RtAudioFormat.RTAUDIO_FLOAT32 }),
+ *   new FormatConverter({ from: RtAudioFormat.RTAUDIO_FLOAT32, to: RtAudioFormat.RTAUDIO_SINT16, dither: true, endianness: 'BE' }),
+ *   socket
+ * )
+ * ```
+ *
+ * Integer samples are normalized by the magnitude of their minimum value, and scaled, rounded and clipped
+ * when integer samples are produced. Float samples are not clipped, since `RtAudio` doesn't apply any range
+ * checks to them either.
+ *
+ * The conversion is sample by sample, so it works the same way with interleaved and non-interleaved data.
+ */
+export class FormatConverter extends Transform {
+  private _from: RtAudioFormat
+  private _to: RtAudioFormat
+  private _fromByteCount: number
+  private _toByteCount: number
+  private _littleEndian: boolean
+  private _ditherAmplitude: number
+  private _pending: Uint8Array
+
+  /**
+   * Create a format converter
+   *
+   * @param options options for the conversion
+   */
+  constructor(options: FormatConverterOptions) {
+    super()
+
+    const fromByteCount = rtAudioFormatToByteCount(options.from)
+    const toByteCount = rtAudioFormatToByteCount(options.to)
+
+    if (!fromByteCount) {
+      throw new TypeError(`unsupported input format: ${options.from}`)
+    }
+
+    if (!toByteCount) {
+      throw new TypeError(`unsupported output format: ${options.to}`)
+    }
+
+    const reducesResolution = isIntegerFormat(options.to) && (!isIntegerFormat(options.from) || toByteCount < fromByteCount)
+
+    this._from = options.from
+    this._to = options.to
+    this._fromByteCount = fromByteCount
+    this._toByteCount = toByteCount
+    this._littleEndian = options.endianness ? options.endianness === 'LE' : isHostLittleEndian
+    this._ditherAmplitude = options.dither && reducesResolution ? 1 / Math.pow(2, toByteCount * 8 - 1) : 0
+    this._pending = new Uint8Array(0)
+  }
+
+  /** @private */
+  _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const data = new Uint8Array(this._pending.byteLength + chunk.byteLength)
+    data.set(this._pending, 0)
+    data.set(chunk, this._pending.byteLength)
+
+    const samples = Math.floor(data.byteLength / this._fromByteCount)
+    this._pending = data.slice(samples * this._fromByteCount)
+
+    if (samples === 0) {
+      callback()
+      return
+    }
+
+    const input = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    const converted = new Uint8Array(samples * this._toByteCount)
+    const output = new DataView(converted.buffer)
+
+    for (let i = 0; i < samples; i++) {
+      let value = readSample(input, i * this._fromByteCount, this._from)
+      if (this._ditherAmplitude > 0) {
+        value += (Math.random() - Math.random()) * this._ditherAmplitude
+      }
+      writeSample(output, i * this._toByteCount, this._to, value, this._littleEndian)
+    }
+
+    callback(null, converted)
+  }
+}
@@ -1,6 +1,67 @@
 import { AudioInputStream } from './audio-input-stream'
 import { AudioOutputStream } from './audio-output-stream'
+import { AudioDuplexStream } from './audio-duplex-stream'
 import { probeApis, probeDevices } from './probe'
+import { AudioBackend, AudioBackendFactory, rtAudioBackend } from './backend'
+import { VirtualAudioHost, VirtualAudioHostOptions, VirtualAudioBackend } from './virtual-backend'
+import { WavWriter, WavWriterOptions, WavReader, WavReaderOptions, WavParams, createWavHeader } from './wav'
+import { FormatConverter, FormatConverterOptions } from './format-converter'
+import { Resampler, ResamplerOptions, ResamplerAdaptiveOptions, ResamplerQuality } from './resampler'
+import { LevelMeter, LevelInfo } from './level-meter'
+import { DeviceWatcher, DeviceWatcherOptions, DefaultDeviceChange } from './device-watcher'
+import { FailoverEvent, FailoverReason } from './failover'
+import { negotiateParams, NegotiableParams, NegotiatedParams, ParamsChange } from './negotiate'
+import {
+  SonanceError,
+  SonanceErrorDetails,
+  SonanceWarning,
+  DeviceError,
+  DriverError,
+  InvalidParameterError,
+  InvalidUseError,
+  MemoryError,
+  ThreadError,
+} from './errors'
+import { AudioFrame, AudioGap, SampleArray, getChannelArrays } from './audio-frame'
+import { planarChunks, toReadableStream, toWritableStream } from './web-streams'
+import { RtpSender, RtpSenderOptions, RtpReceiver, RtpReceiverOptions, RtpReceiverStats } from './rtp'
+import {
+  AudioEncoder,
+  AudioDecoder,
+  AudioCodec,
+  AudioCodecOptions,
+  encodeMuLaw,
+  decodeMuLaw,
+  encodeALaw,
+  decodeALaw,
+} from './codecs'
+import { SignalGenerator, SignalGeneratorOptions, SignalType } from './signal-generator'
+import { SpectrumAnalyzer, SpectrumAnalyzerOptions, Spectrum } from './spectrum-analyzer'
+import { WindowFunction } from './fft'
+import { measureLatency, LatencyCalibrationOptions, LatencyMeasurement, CalibrationSignal } from './latency-calibration'
+import {
+  SegmentedRecorder,
+  SegmentedRecorderOptions,
+  SegmentedRecorderSilenceOptions,
+  SegmentedRecorderTriggerOptions,
+  SegmentInfo,
+  SegmentReason,
+} from './segmented-recorder'
+import {
+  VoiceActivityDetector,
+  VoiceActivityDetectorOptions,
+  VoiceActivityDetectionMode,
+  SpeechStartEvent,
+  SpeechEndEvent,
+} from './voice-activity-detector'
+import { AudioMixer, AudioMixerOptions, AudioMixerInput, AudioMixerInputOptions } from './audio-mixer'
+import {
+  AudioSplitter,
+  AudioSplitterBranch,
+  AudioSplitterBranchOptions,
+  AudioSplitterBranchStats,
+  DropPolicy,
+} from './audio-splitter'
 import {
   RtAudio,
   DeviceInfo,
@@ -15,6 +76,11 @@ import {
 } from '@hamitzor/rtaudio.js'
 import {
   AudioIOParams,
+  AudioDuplexParams,
+  PcmParams,
+  UnderrunPolicy,
+  FailoverParams,
+  ReconfigurableParams,
 } from './types'
 
 export const getApiDisplayName = RtAudio.getApiDisplayName
@@ -24,8 +90,98 @@ export const getAvailableApis = RtAudio.getCompiledApi
 export {
   AudioInputStream,
   AudioOutputStream,
+  AudioDuplexStream,
   probeApis,
   probeDevices,
+  AudioBackend,
+  AudioBackendFactory,
+  rtAudioBackend,
+  VirtualAudioHost,
+  VirtualAudioHostOptions,
+  VirtualAudioBackend,
+  WavWriter,
+  WavWriterOptions,
+  WavReader,
+  WavReaderOptions,
+  WavParams,
+  createWavHeader,
+  FormatConverter,
+  FormatConverterOptions,
+  Resampler,
+  ResamplerOptions,
+  ResamplerAdaptiveOptions,
+  ResamplerQuality,
+  LevelMeter,
+  LevelInfo,
+  VoiceActivityDetector,
+  VoiceActivityDetectorOptions,
+  VoiceActivityDetectionMode,
+  SpeechStartEvent,
+  SpeechEndEvent,
+  AudioMixer,
+  AudioMixerOptions,
+  AudioMixerInput,
+  AudioMixerInputOptions,
+  AudioSplitter,
+  AudioSplitterBranch,
+  AudioSplitterBranchOptions,
+  AudioSplitterBranchStats,
+  DropPolicy,
+  DeviceWatcher,
+  DeviceWatcherOptions,
+  DefaultDeviceChange,
+  FailoverEvent,
+  FailoverReason,
+  negotiateParams,
+  NegotiableParams,
+  NegotiatedParams,
+  ParamsChange,
+  SonanceError,
+  SonanceErrorDetails,
+  SonanceWarning,
+  DeviceError,
+  DriverError,
+  InvalidParameterError,
+  InvalidUseError,
+  MemoryError,
+  ThreadError,
+  AudioFrame,
+  AudioGap,
+  SampleArray,
+  getChannelArrays,
+  planarChunks,
+  toReadableStream,
+  toWritableStream,
+  RtpSender,
+  RtpSenderOptions,
+  RtpReceiver,
+  RtpReceiverOptions,
+  RtpReceiverStats,
+  AudioEncoder,
+  AudioDecoder,
+  AudioCodec,
+  AudioCodecOptions,
+  encodeMuLaw,
+  decodeMuLaw,
+  encodeALaw,
+  decodeALaw,
+  SignalGenerator,
+  SignalGeneratorOptions,
+  SignalType,
+  SpectrumAnalyzer,
+  SpectrumAnalyzerOptions,
+  Spectrum,
+  WindowFunction,
+  measureLatency,
+  LatencyCalibrationOptions,
+  LatencyMeasurement,
+  CalibrationSignal,
+  SegmentedRecorder,
+  SegmentedRecorderOptions,
+  SegmentedRecorderSilenceOptions,
+  SegmentedRecorderTriggerOptions,
+  SegmentInfo,
+  SegmentReason,
   DeviceInfo,
   RtAudioApi,
   RtAudioCallback,
@@ -36,8 +192,14 @@ export {
   StreamOptions,
   StreamParameters,
   AudioIOParams,
+  AudioDuplexParams,
+  PcmParams,
+  UnderrunPolicy,
+  FailoverParams,
+  ReconfigurableParams,
 }
 
 export { rtAudioFormatToByteCount, getReadableErrorMessage } from './common'
+export { readSample, writeSample, decodeChunk, encodeChunk } from './samples'
 
 export const rtAudioVersion = RtAudio.getVersion()
\ No newline at end of file
@@ -0,0 +1,341 @@
+import { RtAudioErrorType, RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved } from './common'
+import { decodeChunk, encodeChunk } from './samples'
+import { fft } from './fft'
+import { InvalidUseError } from './errors'
+import { AudioInputStream } from './audio-input-stream'
+import { AudioOutputStream } from './audio-output-stream'
+import { AudioFrame } from './audio-frame'
+
+/**
+ * The signal played by {@link measureLatency}
+ *
+ * - `chirp`: a logarithmic sine sweep, easy to hear and robust against noise
+ * - `mls`: a maximum length sequence, a noise-like signal with the sharpest correlation peak
+ */
+export type CalibrationSignal = 'chirp' | 'mls'
+
+export type LatencyCalibrationOptions = {
+  /** the stream to play the signal on, it should be running and nothing else should be written to it meanwhile */
+  output: AudioOutputStream
+
+  /** the stream to record the signal with, it should be running at the same sample rate */
+  input: AudioInputStream
+
+  /** the signal to play (default='chirp') */
+  signal?: CalibrationSignal
+
+  /** the duration of the signal in milliseconds, rounded up to a whole sequence for `mls` (default=500) */
+  signalDuration?: number
+
+  /** the highest round-trip delay to look for, in milliseconds (default=1000) */
+  maxLatency?: number
+
+  /** the peak amplitude of the signal between 0 and 1 (default=0.5) */
+  amplitude?: number
+
+  /** the input channel to analyze, all the channels are mixed together when omitted */
+  inputChannel?: number
+
+  /** how long to wait for the input stream to deliver the recording before giving up, in milliseconds (default=10000) */
+  timeout?: number
+}
+
+/** The result of {@link measureLatency} */
+export type LatencyMeasurement = {
+  /**
+   * the round-trip delay in frames, i.e. the audio written to the output stream is read from the input stream this
+   * many frames later
+   */
+  frames: number
+
+  /** the round-trip delay in milliseconds */
+  milliseconds: number
+
+  /**
+   * how well the recording matches the signal at the measured delay, between 0 and 1. Values below 0.2 or so
+   * usually mean the signal was not picked up, e.g. the volume is too low or the wrong devices are used.
+   */
+  confidence: number
+
+  /** the sum of the latencies the two streams report, in frames, to compare with */
+  reportedFrames: number
+}
+
+/** The feedback taps of a maximum length linear feedback shift register, by order */
+const MLS_TAPS: { [order: number]: number[] } = {
+  10: [10, 7],
+  11: [11, 9],
+  12: [12, 11, 10, 4],
+  13: [13, 12, 11, 8],
+  14: [14, 13, 12, 2],
+  15: [15, 14],
+  16: [16, 15, 13, 4],
+  17: [17, 14],
+  18: [18, 11],
+}
+
+/** Create a logarithmic sweep from 100 Hz up to 40% of the sample rate, faded in and out to avoid clicks */
+const createChirp = (frames: number, sampleRate: number) => {
+  const samples = new Float32Array(frames)
+  const start = 100
+  const rate = Math.log(0.4 * sampleRate / start)
+  const duration = frames / sampleRate
+  const fadeFrames = Math.min(Math.round(sampleRate / 200), Math.floor(frames / 2))
+
+  for (let i = 0; i < frames; i++) {
+    const t = i / sampleRate
+    const fade = Math.min(1, i / fadeFrames, (frames - 1 - i) / fadeFrames)
+    samples[i] = fade * Math.sin(2 * Math.PI * start * duration / rate * (Math.exp(t / duration * rate) - 1))
+  }
+
+  return samples
+}
+
+/** Create a maximum length sequence of at least `frames` samples */
+const createMls = (frames: number) => {
+  let order = 10
+  while (order < 18 && (1 << order) - 1 < frames) {
+    order++
+  }
+
+  const taps = MLS_TAPS[order]
+  const samples = new Float32Array((1 << order) - 1)
+  let state = 1
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = state & 1 ? 1 : -1
+    let feedback = 0
+    taps.forEach(tap => {
+      feedback ^= (state >> (order - tap)) & 1
+    })
+    state = (state >> 1) | (feedback << (order - 1))
+  }
+
+  return samples
+}
+
+const nextPowerOfTwo = (value: number) => {
+  let size = 1
+  while (size < value) {
+    size <<= 1
+  }
+  return size
+}
+
+/**
+ * Cross-correlate the recording with the signal for every delay from 0 up to `maxDelay` frames
+ *
+ * @returns the correlation at each delay
+ */
+const crossCorrelate = (recording: Float32Array, signal: Float32Array, maxDelay: number) => {
+  const size = nextPowerOfTwo(recording.length + signal.length)
+  const recordingReal = new Float64Array(size)
+  const recordingImaginary = new Float64Array(size)
+  const signalReal = new Float64Array(size)
+  const signalImaginary = new Float64Array(size)
+
+  recordingReal.set(recording)
+  signalReal.set(signal)
+  fft(recordingReal, recordingImaginary)
+  fft(signalReal, signalImaginary)
+
+  // multiply by the conjugate of the signal, then transform the conjugate again for the inverse
+  for (let i = 0; i < size; i++) {
+    const real = recordingReal[i] * signalReal[i] + recordingImaginary[i] * signalImaginary[i]
+    const imaginary = recordingImaginary[i] * signalReal[i] - recordingReal[i] * signalImaginary[i]
+    recordingReal[i] = real
+    recordingImaginary[i] = -imaginary
+  }
+
+  fft(recordingReal, recordingImaginary)
+
+  const correlation = new Float64Array(maxDelay + 1)
+  for (let delay = 0; delay <= maxDelay; delay++) {
+    correlation[delay] = recordingReal[delay] / size
+  }
+
+  return correlation
+}
+
+/** Write the signal to every channel of the output stream, in whole chunks padded with silence */
+const play = (output: AudioOutputStream, signal: Float32Array, amplitude: number) => {
+  const { channels, bufferFrames, options } = output.params
+  const format = output.params.format || RtAudioFormat.RTAUDIO_SINT16
+  const padded = new Float32Array(Math.ceil(signal.length / bufferFrames) * bufferFrames)
+
+  for (let i = 0; i < signal.length; i++) {
+    padded[i] = signal[i] * amplitude
+  }
+
+  for (let offset = 0; offset < padded.length; offset += bufferFrames) {
+    const block = padded.subarray(offset, offset + bufferFrames)
+    const planes: Float32Array[] = []
+    for (let channel = 0; channel < channels; channel++) {
+      planes.push(block)
+    }
+    output.write(encodeChunk(planes, format, isNonInterleaved(options)))
+  }
+}
+
+/** Record `frames` frames of the input stream as a single channel, calling `onStart` once the recording starts */
+const record = (
+  input: AudioInputStream,
+  inputChannel: number | null,
+  frames: number,
+  timeout: number,
+  invalidUse: (message: string) => InvalidUseError,
+  onStart: () => void
+) => new Promise<Float32Array>((resolve, reject) => {
+  const { channels, options } = input.params
+  const format = input.params.format || RtAudioFormat.RTAUDIO_SINT16
+  const recording = new Float32Array(frames)
+  const wasFlowing = input.readableFlowing === true
+  let length = 0
+
+  if (!wasFlowing) {
+    while (input.read() !== null) {
+      // discard the audio captured before the measurement
+    }
+  }
+
+  const cleanup = () => {
+    clearTimeout(timer)
+    input.removeListener('data', onData)
+    input.removeListener('error', onError)
+    input.removeListener('end', onEnd)
+    if (!wasFlowing) {
+      input.pause()
+    }
+  }
+
+  const onData = (chunk: Uint8Array | AudioFrame) => {
+    const data = chunk instanceof Uint8Array ? chunk : chunk.data
+    const planes = decodeChunk(data, format, channels, isNonInterleaved(options))
+    const count = Math.min(planes[0].length, frames - length)
+
+    for (let frame = 0; frame < count; frame++) {
+      let value = 0
+      if (inputChannel !== null) {
+        value = planes[inputChannel][frame]
+      } else {
+        for (let channel = 0; channel < channels; channel++) {
+          value += planes[channel][frame]
+        }
+        value /= channels
+      }
+      recording[length++] = value
+    }
+
+    if (length === frames) {
+      cleanup()
+      resolve(recording)
+    }
+  }
+
+  const onError = (error: Error) => {
+    cleanup()
+    reject(error)
+  }
+
+  const onEnd = () => {
+    cleanup()
+    reject(invalidUse('the input stream ended during the measurement'))
+  }
+
+  const timer = setTimeout(() => {
+    cleanup()
+    reject(invalidUse('the input stream did not deliver enough audio, is it running?'))
+  }, timeout)
+
+  input.on('data', onData)
+  input.once('error', onError)
+  input.once('end', onEnd)
+  onStart()
+})
+
+/**
+ * Measure the real round-trip delay between an output stream and an input stream, e.g. from the speakers to the
+ * microphone, which is often longer than the {@link AudioOutputStream.latency | `latency`} the drivers report:
+ *
+ * ```javascript
+ * const { frames, confidence } = await measureLatency({ output, input })
+ *
+ * if (confidence > 0.5) {
+ *   // the echo of the audio written to the output stream now is read from the input stream `frames` frames later
+ *   echoCanceller.setDelay(frames)
+ * }
+ * ```
+ *
+ * A known signal is written to the output stream, once its queue is drained, while the input stream is recorded.
+ * The recording is cross-correlated with the signal, and the delay with the strongest correlation is the
+ * round-trip delay. It covers everything between writing to the output stream and reading from the input stream:
+ * the buffers of the streams and of the drivers, the converters and the acoustic path. It can be used as the offset
+ * to align what is read from the input stream with what was written to the output stream.
+ *
+ * The audio already buffered by the input stream is discarded before the recording starts. The input stream is
+ * left in the flowing or paused state it was in.
+ *
+ * @param options options for the measurement
+ * @returns a promise that resolves with the measurement, or rejects if the streams can't be used
+ */
+export const measureLatency = async (options: LatencyCalibrationOptions): Promise<LatencyMeasurement> => {
+  const { input, output } = options
+  const inputParams = input.params
+  const outputParams = output.params
+  const sampleRate = outputParams.sampleRate
+  const toFrames = (ms: number) => Math.round(ms / 1000 * sampleRate)
+  const invalidUse = (message: string) => new InvalidUseError(message, {
+    type: RtAudioErrorType.INVALID_USE,
+    deviceId: inputParams.deviceId,
+    api: inputParams.api
+  })
+
+  if (inputParams.sampleRate !== sampleRate) {
+    throw invalidUse('the input and output streams should run at the same sample rate')
+  }
+
+  if (input.destroyed || output.destroyed) {
+    throw invalidUse('the stream is destroyed')
+  }
+
+  const inputChannel = options.inputChannel !== undefined ? options.inputChannel : null
+  if (inputChannel !== null && !(inputChannel >= 0 && inputChannel < inputParams.channels)) {
+    throw new RangeError(`inputChannel should be between 0 and ${inputParams.channels - 1}`)
+  }
+
+  const signalFrames = Math.max(1, toFrames(options.signalDuration !== undefined ? options.signalDuration : 500))
+  const maxDelay = toFrames(options.maxLatency !== undefined ? options.maxLatency : 1000)
+  const amplitude = options.amplitude !== undefined ? options.amplitude : 0.5
+  const signal = (options.signal || 'chirp') === 'chirp' ? createChirp(signalFrames, sampleRate) : createMls(signalFrames)
+
+  await output.drain()
+
+  const recording = await record(input, inputChannel, signal.length + maxDelay, options.timeout || 10000, invalidUse, () => {
+    play(output, signal, amplitude)
+  })
+
+  const correlation = crossCorrelate(recording, signal, maxDelay)
+  let delay = 0
+  for (let i = 1; i < correlation.length; i++) {
+    if (Math.abs(correlation[i]) > Math.abs(correlation[delay])) {
+      delay = i
+    }
+  }
+
+  let signalEnergy = 0
+  let recordingEnergy = 0
+  for (let i = 0; i < signal.length; i++) {
+    signalEnergy += signal[i] * signal[i]
+    recordingEnergy += recording[delay + i] * recording[delay + i]
+  }
+
+  const confidence = recordingEnergy > 0 ? Math.abs(correlation[delay]) / Math.sqrt(signalEnergy * recordingEnergy) : 0
+
+  return {
+    frames: delay,
+    milliseconds: delay / sampleRate * 1000,
+    confidence: Math.min(1, confidence),
+    reportedFrames: input.latency + output.latency
+  }
+}
@@ -0,0 +1,142 @@
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, rtAudioFormatToByteCount } from './common'
+import { readSample } from './samples'
+import { PcmParams } from './types'
+
+/** Levels measured over an interval, each array has one entry per channel */
+export type LevelInfo = {
+  /** the highest absolute sample value, between 0 and 1 */
+  peak: number[]
+
+  /** the root mean square of the samples, between 0 and 1 */
+  rms: number[]
+
+  /** the peak in dBFS, `-Infinity` for silence */
+  peakDbfs: number[]
+
+  /** the RMS in dBFS, `-Infinity` for silence */
+  rmsDbfs: number[]
+
+  /** the number of samples at or beyond full scale */
+  clipped: number[]
+
+  /** the number of frames the levels were measured over */
+  frames: number
+}
+
+const toDbfs = (value: number) => 20 * Math.log(value) / Math.LN10
+
+/** The smallest normalized magnitude that is considered clipped for each format */
+const clipThreshold = (format: RtAudioFormat) => {
+  switch (format) {
+    case RtAudioFormat.RTAUDIO_SINT8: return 0x7F / 0x80
+    case RtAudioFormat.RTAUDIO_SINT16: return 0x7FFF / 0x8000
+    case RtAudioFormat.RTAUDIO_SINT32: return 0x7FFFFFFF / 0x80000000
+  }
+  return 1
+}
+
+/**
+ * Class that measures the levels of audio data, chunk by chunk. It is used by
+ * {@link AudioInputStream | `AudioInputStream`} and {@link AudioOutputStream | `AudioOutputStream`} to emit
+ * `level` events when {@link AudioIOParams | `params.meterInterval`} is given, but it can be used on its own too.
+ *
+ * Chunks should consist of whole frames. If `RTAUDIO_NONINTERLEAVED` is set, each chunk should be a whole
+ * non-interleaved block, as the streams deliver them.
+ */
+export class LevelMeter {
+  private _channels: number
+  private _format: RtAudioFormat
+  private _byteCount: number
+  private _nonInterleaved: boolean
+  private _clipThreshold: number
+  private _intervalFrames: number
+  private _frames: number
+  private _peak: number[]
+  private _sumOfSquares: number[]
+  private _clipped: number[]
+
+  /**
+   * Create a level meter
+   *
+   * @param params the parameters of the audio data
+   * @param interval the interval of the measurements in milliseconds
+   */
+  constructor(params: Pick<PcmParams, 'channels' | 'sampleRate' | 'format' | 'options'>, interval: number) {
+    this._channels = params.channels
+    this._format = params.format || RtAudioFormat.RTAUDIO_SINT16
+    this._byteCount = rtAudioFormatToByteCount(this._format)
+    this._nonInterleaved = isNonInterleaved(params.options)
+    this._clipThreshold = clipThreshold(this._format)
+    this._intervalFrames = Math.max(1, Math.round(interval / 1000 * params.sampleRate))
+    this._frames = 0
+    this._peak = []
+    this._sumOfSquares = []
+    this._clipped = []
+    this.reset()
+  }
+
+  /**
+   * Measure a chunk
+   *
+   * @param chunk the audio data
+   * @returns the levels if the interval has elapsed with this chunk, otherwise `null`
+   */
+  process(chunk: Uint8Array): LevelInfo | null {
+    const frames = Math.floor(chunk.byteLength / (this._channels * this._byteCount))
+    const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+
+    for (let channel = 0; channel < this._channels; channel++) {
+      let peak = this._peak[channel]
+      let sumOfSquares = this._sumOfSquares[channel]
+      let clipped = this._clipped[channel]
+
+      for (let frame = 0; frame < frames; frame++) {
+        const index = this._nonInterleaved ? channel * frames + frame : frame * this._channels + channel
+        const value = readSample(view, index * this._byteCount, this._format)
+        const magnitude = Math.abs(value)
+
+        if (magnitude > peak) {
+          peak = magnitude
+        }
+        if (magnitude >= this._clipThreshold) {
+          clipped++
+        }
+        sumOfSquares += value * value
+      }
+
+      this._peak[channel] = peak
+      this._sumOfSquares[channel] = sumOfSquares
+      this._clipped[channel] = clipped
+    }
+
+    this._frames += frames
+
+    if (this._frames < this._intervalFrames) {
+      return null
+    }
+
+    const rms = this._sumOfSquares.map(sumOfSquares => Math.sqrt(sumOfSquares / this._frames))
+    const level: LevelInfo = {
+      peak: this._peak.slice(),
+      rms: rms,
+      peakDbfs: this._peak.map(toDbfs),
+      rmsDbfs: rms.map(toDbfs),
+      clipped: this._clipped.slice(),
+      frames: this._frames
+    }
+
+    this.reset()
+    return level
+  }
+
+  /** Discard the measurements of the current interval */
+  reset(): void {
+    this._frames = 0
+    for (let channel = 0; channel < this._channels; channel++) {
+      this._peak[channel] = 0
+      this._sumOfSquares[channel] = 0
+      this._clipped[channel] = 0
+    }
+  }
+}
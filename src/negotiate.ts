@@ -0,0 +1,166 @@
+import { DeviceInfo, RtAudioErrorType, RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { AudioBackend } from './backend'
+import { DeviceError, InvalidParameterError } from './errors'
+import { AudioIOParams } from './types'
+
+/** The parameters {@link negotiateParams} checks against a device */
+export type NegotiableParams = Pick<AudioIOParams, 'channels' | 'firstChannel' | 'sampleRate' | 'format'>
+
+/** A parameter {@link negotiateParams} had to change */
+export type ParamsChange = {
+  /** the name of the parameter */
+  param: 'channels' | 'sampleRate' | 'format'
+
+  /** the value asked for */
+  requested: number
+
+  /** the closest value the device supports */
+  negotiated: number
+
+  /** a human readable description of the change */
+  reason: string
+}
+
+/** The result of {@link negotiateParams} */
+export type NegotiatedParams<T extends NegotiableParams> = {
+  /** the desired parameters, with the unsupported values replaced by the closest supported ones */
+  params: T
+
+  /** what was changed, empty if the device supports the desired parameters as they are */
+  changes: ParamsChange[]
+}
+
+/** The formats from the lowest resolution to the highest */
+const FORMATS = [
+  RtAudioFormat.RTAUDIO_SINT8,
+  RtAudioFormat.RTAUDIO_SINT16,
+  RtAudioFormat.RTAUDIO_SINT32,
+  RtAudioFormat.RTAUDIO_FLOAT32,
+  RtAudioFormat.RTAUDIO_FLOAT64,
+]
+
+const formatName = (format: RtAudioFormat) => {
+  switch (format) {
+    case RtAudioFormat.RTAUDIO_SINT8: return '8-bit integer'
+    case RtAudioFormat.RTAUDIO_SINT16: return '16-bit integer'
+    case RtAudioFormat.RTAUDIO_SINT32: return '32-bit integer'
+    case RtAudioFormat.RTAUDIO_FLOAT32: return '32-bit float'
+    case RtAudioFormat.RTAUDIO_FLOAT64: return '64-bit float'
+  }
+  return `format ${format}`
+}
+
+/** Get the closest native format, preferring the next higher resolution over a lower one */
+const closestFormat = (format: RtAudioFormat, nativeFormats: number) => {
+  const index = FORMATS.indexOf(format)
+  const higher = FORMATS.slice(index + 1).find(candidate => nativeFormats & candidate)
+  const lower = FORMATS.slice(0, Math.max(0, index)).reverse().find(candidate => nativeFormats & candidate)
+  return higher || lower || format
+}
+
+/** Get the closest sample rate, preferring the higher one of two equally close rates */
+const closestSampleRate = (sampleRate: number, sampleRates: number[]) => sampleRates.reduce((closest, candidate) => {
+  const distance = Math.abs(candidate - sampleRate)
+  const closestDistance = Math.abs(closest - sampleRate)
+  return distance < closestDistance || (distance === closestDistance && candidate > closest) ? candidate : closest
+})
+
+/**
+ * Check the channels, sample rate and format of the desired parameters against what a device supports,
+ * and get the closest supported configuration:
+ *
+ * ```javascript
+ * const { defaultOutputDevice } = probeDevices()
+ * const { params, changes } = negotiateParams(defaultOutputDevice, { channels: 2, sampleRate: 44100, format: RtAudioFormat.RTAUDIO_FLOAT32 })
+ *
+ * changes.forEach(({ reason }) => console.warn(reason))
+ * const audioStream = new AudioOutputStream({ ...params, deviceId: defaultOutputDevice.id, bufferFrames: 512 })
+ * ```
+ *
+ * The channels are limited to the input or output channels of the device, starting from `firstChannel`. The sample
+ * rate is replaced with the closest one in `sampleRates`, and the format with the closest one in `nativeFormats`,
+ * preferring a higher resolution. Note that `RtAudio` converts from and to the native formats, so a non-native
+ * format still works, at the cost of a conversion.
+ *
+ * @param device the device to check against
+ * @param desired the desired parameters
+ * @param kind whether the parameters are for capturing or playback (default='output')
+ * @returns the closest supported parameters, and the list of changes
+ */
+export const negotiateParams = <T extends NegotiableParams>(
+  device: DeviceInfo,
+  desired: T,
+  kind: 'input' | 'output' = 'output'
+): NegotiatedParams<T> => {
+  const params = { ...desired }
+  const changes: ParamsChange[] = []
+  const deviceChannels = (kind === 'input' ? device.inputChannels : device.outputChannels) - (desired.firstChannel || 0)
+
+  if (deviceChannels < 1) {
+    throw new InvalidParameterError(
+      `${device.name} has no ${kind} channels${desired.firstChannel ? ` from channel ${desired.firstChannel}` : ''}`,
+      { type: RtAudioErrorType.INVALID_PARAMETER, deviceId: device.id }
+    )
+  }
+
+  if (desired.channels > deviceChannels) {
+    params.channels = deviceChannels
+    changes.push({
+      param: 'channels',
+      requested: desired.channels,
+      negotiated: deviceChannels,
+      reason: `${desired.channels} ${kind} channels are not supported, the maximum is ${deviceChannels}`
+    })
+  }
+
+  if (device.sampleRates.length > 0 && device.sampleRates.indexOf(desired.sampleRate) < 0) {
+    params.sampleRate = closestSampleRate(desired.sampleRate, device.sampleRates)
+    changes.push({
+      param: 'sampleRate',
+      requested: desired.sampleRate,
+      negotiated: params.sampleRate,
+      reason: `the sample rate ${desired.sampleRate} is not supported, the closest is ${params.sampleRate}`
+    })
+  }
+
+  const format = desired.format || RtAudioFormat.RTAUDIO_SINT16
+
+  if (device.nativeFormats && !(device.nativeFormats & format)) {
+    params.format = closestFormat(format, device.nativeFormats)
+    changes.push({
+      param: 'format',
+      requested: format,
+      negotiated: params.format,
+      reason: `the ${formatName(format)} format is not native, the closest is ${formatName(params.format)}`
+    })
+  }
+
+  return { params, changes }
+}
+
+/**
+ * Throw a descriptive {@link InvalidParameterError} if a device can't be opened with the given parameters as they are. It is used by the
+ * streams when {@link AudioIOParams | `params.strict`} is set. Only the channels and the sample rate are enforced, a non-native
+ * format is accepted since `RtAudio` converts it.
+ *
+ * @param rtAudio the backend to look the device up on
+ * @param deviceId the id of the device
+ * @param params the parameters to check
+ * @param kind whether the parameters are for capturing or playback
+ */
+export const assertSupportedParams = (rtAudio: AudioBackend, deviceId: number, params: NegotiableParams, kind: 'input' | 'output') => {
+  const device = rtAudio.getDevices().find(({ id }) => id === deviceId)
+
+  if (!device) {
+    throw new DeviceError(`there is no device with the id ${deviceId}`, { type: RtAudioErrorType.INVALID_DEVICE, deviceId })
+  }
+
+  const changes = negotiateParams(device, params, kind).changes.filter(({ param }) => param !== 'format')
+
+  if (changes.length > 0) {
+    throw new InvalidParameterError(
+      `${device.name} cannot be opened for ${kind}: ${changes.map(({ reason }) => reason).join(', ')}`,
+      { type: RtAudioErrorType.INVALID_PARAMETER, deviceId }
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { DeviceInfo, RtAudio, RtAudioApi } from '@hamitzor/rtaudio.js'
+import { AudioBackendFactory, rtAudioBackend } from './backend'
 
 /** Get available audio APIs */
 export const probeApis = () => RtAudio.getCompiledApi().map(id => ({
@@ -9,13 +10,14 @@ export const probeApis = () => RtAudio.getCompiledApi().map(id => ({
 /** Get available devices for a given API
  * 
  * @param api the API to query. If omitted, an available api will be used.
+ * @param backend the backend to query (default=`RtAudio`)
  */
-export const probeDevices = (api?: RtAudioApi): {
+export const probeDevices = (api?: RtAudioApi, backend: AudioBackendFactory = rtAudioBackend): {
   devices: DeviceInfo[]
   defaultInputDevice?: DeviceInfo
   defaultOutputDevice?: DeviceInfo
 } => {
-  const rtAudio = api ? new RtAudio(api) : new RtAudio()
+  const rtAudio = backend(api)
 
   return {
     devices: rtAudio.getDevices(),
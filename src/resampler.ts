@@ -0,0 +1,336 @@
+import { Transform, TransformCallback } from 'stream'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, rtAudioFormatToByteCount } from './common'
+import { decodeChunk, encodeChunk } from './samples'
+import { AudioInputStream } from './audio-input-stream'
+import { AudioOutputStream } from './audio-output-stream'
+import { PcmParams } from './types'
+
+/** The quality of the conversion, higher qualities use longer filters and cost more CPU */
+export type ResamplerQuality = 'low' | 'medium' | 'high'
+
+export type ResamplerOptions = Omit<PcmParams, 'sampleRate' | 'bufferFrames'> & {
+  /** the sample rate of the incoming audio */
+  inputSampleRate: number
+
+  /** the sample rate of the outgoing audio */
+  outputSampleRate: number
+
+  /** the quality of the conversion (default='medium') */
+  quality?: ResamplerQuality
+
+  /**
+   * the number of frames in a block, only required when `RTAUDIO_NONINTERLEAVED` is set in `options.flags`.
+   * Incoming blocks should be of that size and outgoing blocks will be of that size too.
+   */
+  bufferFrames?: number
+
+  /** enable drift compensation, see {@link Resampler} */
+  adaptive?: ResamplerAdaptiveOptions
+}
+
+export type ResamplerAdaptiveOptions = {
+  /**
+   * the stream whose clock is tracked. An {@link AudioInputStream | `AudioInputStream`} is assumed to feed
+   * the resampler, an {@link AudioOutputStream | `AudioOutputStream`} is assumed to be fed by it.
+   */
+  stream: AudioInputStream | AudioOutputStream
+
+  /** the maximum correction applied to the ratio, in parts per million (default=1000) */
+  maxCorrection?: number
+
+  /** the minimum number of seconds between two measurements (default=1) */
+  interval?: number
+
+  /** the weight of a new measurement in the running estimate, between 0 and 1 (default=0.05) */
+  smoothing?: number
+}
+
+const QUALITY: { [quality in ResamplerQuality]: { zeroCrossings: number, beta: number, rolloff: number } } = {
+  low: { zeroCrossings: 8, beta: 5, rolloff: 0.86 },
+  medium: { zeroCrossings: 16, beta: 7, rolloff: 0.92 },
+  high: { zeroCrossings: 32, beta: 9, rolloff: 0.96 },
+}
+
+/** The number of table entries between two zero crossings of the filter */
+const OVERSAMPLING = 256
+
+/** Zeroth order modified Bessel function of the first kind, used by the Kaiser window */
+const bessel0 = (x: number) => {
+  let sum = 1
+  let term = 1
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k))
+    sum += term
+    if (term < sum * 1e-12) {
+      break
+    }
+  }
+  return sum
+}
+
+/** Tabulate the right half of a Kaiser windowed sinc with the given number of zero crossings */
+const createFilterTable = (zeroCrossings: number, beta: number) => {
+  const length = zeroCrossings * OVERSAMPLING + 2
+  const table = new Float64Array(length)
+  const norm = bessel0(beta)
+
+  for (let i = 0; i < length; i++) {
+    const x = i / OVERSAMPLING
+    const ratio = x / zeroCrossings
+    const window = ratio >= 1 ? 0 : bessel0(beta * Math.sqrt(1 - ratio * ratio)) / norm
+    table[i] = (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x)) * window
+  }
+
+  return table
+}
+
+const now = () => {
+  const [seconds, nanoseconds] = process.hrtime()
+  return seconds + nanoseconds / 1e9
+}
+
+/**
+ * Class that converts the sample rate of an audio stream with a band-limited (Kaiser windowed sinc)
+ * interpolator. Any ratio is supported, e.g. 44.1 kHz to 48 kHz, or 48 kHz to 16 kHz for speech engines:
+ *
+ * ```javascript
+ * pipeline(
+ *   new AudioInputStream({ ...params, sampleRate: 48000 }),
+ *   new Resampler({ channels: params.channels, format: params.format, inputSampleRate: 48000, outputSampleRate: 16000 }),
+ *   speechEngine
+ * )
+ * ```
+ *
+ * The samples are emitted in the same format and layout they are received.
+ *
+ * Devices often don't run at exactly the requested rate, which makes the buffers of long sessions
+ * drift. In adaptive mode ({@link ResamplerOptions | `options.adaptive`}) the resampler tracks the clock
+ * of an {@link AudioInputStream | `AudioInputStream`} or {@link AudioOutputStream | `AudioOutputStream`}. It starts from
+ * `getTrueSampleRate` of the stream, then compares the progress of its `time` to the system clock and slowly adjusts the
+ * ratio to absorb the difference.
+ */
+export class Resampler extends Transform {
+  private _channels: number
+  private _format: RtAudioFormat
+  private _frameSize: number
+  private _nonInterleaved: boolean
+  private _bufferFrames: number
+  private _inputSampleRate: number
+  private _outputSampleRate: number
+  private _table: Float64Array
+  private _zeroCrossings: number
+  private _cutoff: number
+  private _halfWidth: number
+  private _history: Float64Array[]
+  private _historyLength: number
+  private _position: number
+  private _pending: Uint8Array
+  private _output: number[][]
+  private _adaptive: Required<ResamplerAdaptiveOptions> | null
+  private _correction: number
+  private _lastMeasurement: { wall: number, stream: number } | null
+
+  /**
+   * Create a resampler
+   *
+   * @param options options for the conversion
+   */
+  constructor(options: ResamplerOptions) {
+    super()
+
+    const quality = QUALITY[options.quality || 'medium']
+
+    this._channels = options.channels
+    this._format = options.format || RtAudioFormat.RTAUDIO_SINT16
+    this._frameSize = options.channels * rtAudioFormatToByteCount(this._format)
+    this._nonInterleaved = isNonInterleaved(options.options)
+    this._bufferFrames = options.bufferFrames || 0
+    this._inputSampleRate = options.inputSampleRate
+    this._outputSampleRate = options.outputSampleRate
+    this._zeroCrossings = quality.zeroCrossings
+    this._table = createFilterTable(quality.zeroCrossings, quality.beta)
+    this._cutoff = Math.min(1, options.outputSampleRate / options.inputSampleRate) * quality.rolloff
+    this._halfWidth = Math.ceil(quality.zeroCrossings / this._cutoff) + 1
+    this._history = []
+    this._historyLength = this._halfWidth
+    this._position = this._halfWidth
+    this._pending = new Uint8Array(0)
+    this._output = []
+    this._adaptive = options.adaptive ? {
+      maxCorrection: 1000,
+      interval: 1,
+      smoothing: 0.05,
+      ...options.adaptive
+    } : null
+    this._correction = 1
+    this._lastMeasurement = null
+
+    if (this._nonInterleaved && !this._bufferFrames) {
+      throw new TypeError('bufferFrames is required for non-interleaved audio')
+    }
+
+    for (let channel = 0; channel < this._channels; channel++) {
+      this._history.push(new Float64Array(this._halfWidth * 4))
+      this._output.push([])
+    }
+  }
+
+  /** The current ratio of the input sample rate to the output sample rate, including the drift correction */
+  get ratio(): number {
+    if (!this._adaptive) {
+      return this._inputSampleRate / this._outputSampleRate
+    }
+
+    const trueSampleRate = this._adaptive.stream.getTrueSampleRate
+
+    if (this._adaptive.stream instanceof AudioInputStream) {
+      return (trueSampleRate || this._inputSampleRate) * this._correction / this._outputSampleRate
+    }
+
+    return this._inputSampleRate / ((trueSampleRate || this._outputSampleRate) * this._correction)
+  }
+
+  /** The drift correction applied in adaptive mode, e.g. 1.0001 if the tracked stream runs 100 ppm fast */
+  get correction(): number { return this._correction }
+
+  /** @private */
+  _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const data = new Uint8Array(this._pending.byteLength + chunk.byteLength)
+    data.set(this._pending, 0)
+    data.set(chunk, this._pending.byteLength)
+
+    const blockSize = this._nonInterleaved ? this._bufferFrames * this._frameSize : this._frameSize
+    const length = data.byteLength - data.byteLength % blockSize
+    this._pending = data.slice(length)
+
+    this._measureDrift()
+
+    const step = this._nonInterleaved ? blockSize : length
+    for (let offset = 0; offset < length; offset += step) {
+      this._append(decodeChunk(data.subarray(offset, offset + step), this._format, this._channels, this._nonInterleaved))
+    }
+
+    this._process(false)
+    callback()
+  }
+
+  /** @private */
+  _flush(callback: TransformCallback): void {
+    const silence: Float32Array[] = []
+    for (let channel = 0; channel < this._channels; channel++) {
+      silence.push(new Float32Array(this._halfWidth))
+    }
+
+    this._append(silence)
+    this._process(true)
+    callback()
+  }
+
+  private _append(planes: Float32Array[]) {
+    const frames = planes.length > 0 ? planes[0].length : 0
+
+    for (let channel = 0; channel < this._channels; channel++) {
+      let history = this._history[channel]
+
+      if (this._historyLength + frames > history.length) {
+        const grown = new Float64Array((this._historyLength + frames) * 2)
+        grown.set(history.subarray(0, this._historyLength), 0)
+        history = this._history[channel] = grown
+      }
+
+      history.set(planes[channel], this._historyLength)
+    }
+
+    this._historyLength += frames
+  }
+
+  private _process(flushing: boolean) {
+    const step = this.ratio
+    const halfWidth = this._halfWidth
+    const limit = this._historyLength - halfWidth
+    const table = this._table
+    const cutoff = this._cutoff
+    const zeroCrossings = this._zeroCrossings
+    const scale = cutoff * OVERSAMPLING
+
+    while (this._position < limit) {
+      const base = Math.floor(this._position)
+      const fraction = this._position - base
+
+      for (let channel = 0; channel < this._channels; channel++) {
+        const history = this._history[channel]
+        let sum = 0
+
+        for (let k = -halfWidth + 1; k <= halfWidth; k++) {
+          const distance = Math.abs(k - fraction) * scale
+          const index = Math.floor(distance)
+          if (index >= zeroCrossings * OVERSAMPLING) {
+            continue
+          }
+          const weight = table[index] + (table[index + 1] - table[index]) * (distance - index)
+          sum += history[base + k] * weight
+        }
+
+        this._output[channel].push(sum * cutoff)
+      }
+
+      this._position += step
+    }
+
+    const discard = Math.max(0, Math.floor(this._position) - halfWidth)
+    if (discard > 0) {
+      for (let channel = 0; channel < this._channels; channel++) {
+        const history = this._history[channel]
+        history.copyWithin(0, discard, this._historyLength)
+      }
+      this._historyLength -= discard
+      this._position -= discard
+    }
+
+    this._emit(flushing)
+  }
+
+  private _emit(flushing: boolean) {
+    const frames = this._output.length > 0 ? this._output[0].length : 0
+    const blockFrames = this._nonInterleaved ? this._bufferFrames : frames
+    let offset = 0
+
+    while (blockFrames > 0 && frames - offset >= blockFrames) {
+      this.push(encodeChunk(this._output.map(samples => samples.slice(offset, offset + blockFrames)), this._format, this._nonInterleaved))
+      offset += blockFrames
+    }
+
+    if (flushing && frames - offset > 0) {
+      this.push(encodeChunk(this._output.map(samples => samples.slice(offset)), this._format, this._nonInterleaved))
+      offset = frames
+    }
+
+    this._output = this._output.map(samples => samples.slice(offset))
+  }
+
+  private _measureDrift() {
+    if (!this._adaptive) {
+      return
+    }
+
+    const measurement = { wall: now(), stream: this._adaptive.stream.time }
+
+    if (!this._lastMeasurement || measurement.stream < this._lastMeasurement.stream) {
+      this._lastMeasurement = measurement
+      return
+    }
+
+    const elapsed = measurement.wall - this._lastMeasurement.wall
+    if (elapsed < this._adaptive.interval) {
+      return
+    }
+
+    const measured = (measurement.stream - this._lastMeasurement.stream) / elapsed
+    const limit = this._adaptive.maxCorrection / 1e6
+    const target = Math.min(1 + limit, Math.max(1 - limit, measured))
+
+    this._correction += (target - this._correction) * this._adaptive.smoothing
+    this._lastMeasurement = measurement
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * A fixed capacity FIFO of bytes. The storage is allocated once, so reading and writing never
+ * allocate, which keeps the realtime callbacks free of garbage.
+ */
+export class RingBuffer {
+  private _data: Uint8Array
+  private _readIndex: number
+  private _length: number
+
+  /**
+   * Create a ring buffer
+   *
+   * @param capacity the number of bytes it can hold
+   */
+  constructor(capacity: number) {
+    this._data = new Uint8Array(capacity)
+    this._readIndex = 0
+    this._length = 0
+  }
+
+  /** The number of bytes it can hold */
+  get capacity(): number { return this._data.byteLength }
+
+  /** The number of bytes it holds */
+  get length(): number { return this._length }
+
+  /** The number of bytes that can be written before it is full */
+  get available(): number { return this._data.byteLength - this._length }
+
+  /**
+   * Append as many bytes of `data` as there is room for
+   *
+   * @param data the bytes to append
+   * @returns the number of bytes appended
+   */
+  write(data: Uint8Array): number {
+    const count = Math.min(data.byteLength, this.available)
+    const writeIndex = (this._readIndex + this._length) % this.capacity
+    const first = Math.min(count, this.capacity - writeIndex)
+
+    this._data.set(data.subarray(0, first), writeIndex)
+    this._data.set(data.subarray(first, count), 0)
+    this._length += count
+
+    return count
+  }
+
+  /**
+   * Remove up to `length` bytes from the front and copy them into `target`
+   *
+   * @param target the array to copy the bytes into
+   * @param offset the offset in `target` to start copying at (default=0)
+   * @param length the maximum number of bytes to remove (default=the room left in `target`)
+   * @returns the number of bytes removed
+   */
+  read(target: Uint8Array, offset: number = 0, length: number = target.byteLength - offset): number {
+    const count = Math.min(length, this._length)
+    const first = Math.min(count, this.capacity - this._readIndex)
+
+    target.set(this._data.subarray(this._readIndex, this._readIndex + first), offset)
+    target.set(this._data.subarray(0, count - first), offset + first)
+    this._readIndex = (this._readIndex + count) % this.capacity
+    this._length -= count
+
+    return count
+  }
+
+  /** Remove all the bytes */
+  clear(): void {
+    this._readIndex = 0
+    this._length = 0
+  }
+}
@@ -0,0 +1,751 @@
+import { Readable, Writable } from 'stream'
+import { createSocket, RemoteInfo, Socket } from 'dgram'
+import { AddressInfo } from 'net'
+import { isUint8Array } from 'util/types'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, rtAudioFormatToByteCount } from './common'
+import { decodeChunk, encodeChunk, readSample, writeSample } from './samples'
+import { PcmParams } from './types'
+
+export type RtpSenderOptions = Pick<PcmParams, 'channels' | 'sampleRate' | 'format' | 'options'> & {
+  /** the address to send the packets to */
+  address: string
+
+  /** the port to send the packets to */
+  port: number
+
+  /** the socket to send the packets with, it is not closed when the sender ends (default=a new UDP socket) */
+  socket?: Socket
+
+  /** the RTP payload type (default=96, a dynamic type) */
+  payloadType?: number
+
+  /** the synchronization source identifier (default=random) */
+  ssrc?: number
+
+  /** the duration of the audio in each packet in milliseconds (default=20) */
+  packetDuration?: number
+
+  /** the maximum size of the payload in bytes, which shortens the packets if needed to avoid fragmentation (default=1400) */
+  maxPayloadSize?: number
+}
+
+export type RtpReceiverOptions = Pick<PcmParams, 'channels' | 'sampleRate' | 'format' | 'options'> & {
+  /** the port to listen on, 0 for a random port, see {@link RtpReceiver.address} (default=0) */
+  port?: number
+
+  /** the address to listen on (default=all addresses) */
+  address?: string
+
+  /** the socket to receive the packets with, it is not closed when the receiver ends (default=a new UDP socket) */
+  socket?: Socket
+
+  /** the RTP payload type to accept, other packets are ignored (default=any) */
+  payloadType?: number
+
+  /** the minimum delay of the jitter buffer in milliseconds (default=20) */
+  minDelay?: number
+
+  /** the maximum delay of the jitter buffer in milliseconds (default=200) */
+  maxDelay?: number
+}
+
+/** The statistics of an {@link RtpReceiver} */
+export type RtpReceiverStats = {
+  /** the number of packets received and accepted */
+  received: number
+
+  /** the number of packets that never arrived, each of them concealed */
+  lost: number
+
+  /** the number of packets that arrived after their turn was concealed, which are dropped */
+  late: number
+
+  /** the number of packets that arrived more than once */
+  duplicates: number
+
+  /**
+   * the number of packets dropped unplayed because more than the maximum delay was buffered, e.g. while the stream
+   * isn't read or when the sender runs faster than the device
+   */
+  dropped: number
+
+  /** the number of times the jitter buffer ran empty and started buffering again */
+  underruns: number
+
+  /** the interarrival jitter in milliseconds, as defined by RFC 3550 */
+  jitter: number
+
+  /** the current delay of the jitter buffer in milliseconds */
+  delay: number
+}
+
+type RtpPacket = {
+  sequence: number
+  timestamp: number
+  ssrc: number
+  payloadType: number
+  payload: Uint8Array
+}
+
+const RTP_HEADER_SIZE = 12
+
+/** The number of consecutive lost packets that are concealed by repeating the last packet, before silence is played */
+const MAX_REPEATED_PACKETS = 3
+
+/** Get the distance from sequence number `b` to `a`, taking the wrap-around of the 16-bit counter into account */
+const sequenceDistance = (a: number, b: number) => ((a - b + 0x18000) & 0xffff) - 0x8000
+
+const randomUint32 = () => Math.floor(Math.random() * 0x100000000)
+
+const parsePacket = (data: Uint8Array): RtpPacket | null => {
+  if (data.byteLength < RTP_HEADER_SIZE || data[0] >> 6 !== 2) {
+    return null
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const hasPadding = (data[0] & 0x20) !== 0
+  const hasExtension = (data[0] & 0x10) !== 0
+  let offset = RTP_HEADER_SIZE + (data[0] & 0x0f) * 4
+
+  if (hasExtension) {
+    if (data.byteLength < offset + 4) {
+      return null
+    }
+    offset += 4 + view.getUint16(offset + 2) * 4
+  }
+
+  const end = data.byteLength - (hasPadding ? data[data.byteLength - 1] : 0)
+
+  if (end < offset) {
+    return null
+  }
+
+  return {
+    sequence: view.getUint16(2),
+    timestamp: view.getUint32(4),
+    ssrc: view.getUint32(8),
+    payloadType: data[1] & 0x7f,
+    payload: data.subarray(offset, end)
+  }
+}
+
+/**
+ * Class that sends audio over UDP as RTP packets with an L16 payload (RFC 3551), i.e. 16-bit big-endian interleaved
+ * samples. It is a {@link https://nodejs.org/docs/latest-v18.x/api/stream.html#stream_class_stream_writable | `stream.Writable`},
+ * so an {@link AudioInputStream | `AudioInputStream`} can be piped into it:
+ *
+ * ```javascript
+ * const params = { channels: 2, sampleRate: 48000, format: RtAudioFormat.RTAUDIO_FLOAT32 }
+ *
+ * new AudioInputStream({ ...params, deviceId, bufferFrames: 480 })
+ *   .pipe(new RtpSender({ ...params, address: '192.168.1.20', port: 5004 }))
+ * ```
+ *
+ * The chunks are converted from the format and the layout given in the options, and cut into packets of
+ * {@link RtpSenderOptions | `options.packetDuration`}, regardless of the size of the chunks. The sequence number
+ * is incremented by one and the timestamp by the number of frames on each packet, and the marker bit is set on
+ * the first one. The last partial packet is sent when the stream ends.
+ *
+ * Unlike TCP, a lost packet doesn't hold up the ones after it, which are played on time by an {@link RtpReceiver}.
+ */
+export class RtpSender extends Writable {
+  private _socket: Socket
+  private _ownsSocket: boolean
+  private _address: string
+  private _port: number
+  private _channels: number
+  private _format: RtAudioFormat
+  private _nonInterleaved: boolean
+  private _payloadType: number
+  private _ssrc: number
+  private _sequence: number
+  private _timestamp: number
+  private _packetSize: number
+  private _pending: Uint8Array
+  private _packetsSent: number
+
+  /**
+   * Create an RTP sender
+   *
+   * @param options options for the sender
+   */
+  constructor(options: RtpSenderOptions) {
+    super()
+
+    const frameSize = options.channels * 2
+    const packetFrames = Math.round(options.sampleRate * (options.packetDuration || 20) / 1000)
+    const maxPayloadSize = options.maxPayloadSize || 1400
+
+    this._socket = options.socket || createSocket('udp4')
+    this._ownsSocket = !options.socket
+    this._address = options.address
+    this._port = options.port
+    this._channels = options.channels
+    this._format = options.format || RtAudioFormat.RTAUDIO_SINT16
+    this._nonInterleaved = isNonInterleaved(options.options)
+    this._payloadType = options.payloadType !== undefined ? options.payloadType : 96
+    this._ssrc = options.ssrc !== undefined ? options.ssrc >>> 0 : randomUint32()
+    this._sequence = randomUint32() & 0xffff
+    this._timestamp = randomUint32()
+    this._packetSize = Math.max(1, Math.min(packetFrames, Math.floor(maxPayloadSize / frameSize))) * frameSize
+    this._pending = new Uint8Array(0)
+    this._packetsSent = 0
+  }
+
+  /** Get the synchronization source identifier of the packets */
+  get ssrc(): number { return this._ssrc }
+
+  /** Get the number of packets sent */
+  get packetsSent(): number { return this._packetsSent }
+
+  _write(chunk: Uint8Array, _encoding: BufferEncoding, callback: (error?: Error | null | undefined) => void): void {
+    if (!isUint8Array(chunk)) {
+      throw new TypeError('chunk should be an instance of Uint8Array')
+    }
+
+    const samples = this._toL16(chunk)
+    const data = new Uint8Array(this._pending.byteLength + samples.byteLength)
+    data.set(this._pending, 0)
+    data.set(samples, this._pending.byteLength)
+
+    const packetCount = Math.floor(data.byteLength / this._packetSize)
+    this._pending = data.slice(packetCount * this._packetSize)
+
+    const payloads: Uint8Array[] = []
+    for (let i = 0; i < packetCount; i++) {
+      payloads.push(data.subarray(i * this._packetSize, (i + 1) * this._packetSize))
+    }
+
+    this._send(payloads, callback)
+  }
+
+  _final(callback: (error?: Error | null | undefined) => void): void {
+    const payloads = this._pending.byteLength > 0 ? [this._pending] : []
+    this._pending = new Uint8Array(0)
+    this._send(payloads, callback)
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null | undefined) => void): void {
+    if (this._ownsSocket) {
+      this._socket.close()
+    }
+    callback(error)
+  }
+
+  /** Convert a chunk into 16-bit big-endian interleaved samples */
+  private _toL16(chunk: Uint8Array) {
+    const planes = decodeChunk(chunk, this._format, this._channels, this._nonInterleaved)
+    const frames = planes.length > 0 ? planes[0].length : 0
+    const samples = new Uint8Array(frames * this._channels * 2)
+    const view = new DataView(samples.buffer)
+
+    for (let frame = 0; frame < frames; frame++) {
+      for (let channel = 0; channel < this._channels; channel++) {
+        writeSample(view, (frame * this._channels + channel) * 2, RtAudioFormat.RTAUDIO_SINT16, planes[channel][frame], false)
+      }
+    }
+
+    return samples
+  }
+
+  /** Send the payloads as consecutive packets, calling back once all of them are sent */
+  private _send(payloads: Uint8Array[], callback: (error?: Error | null | undefined) => void) {
+    let remaining = payloads.length
+    let failed = false
+
+    if (remaining === 0) {
+      callback()
+      return
+    }
+
+    payloads.forEach(payload => {
+      const packet = this._createPacket(payload)
+
+      this._socket.send(packet, this._port, this._address, error => {
+        remaining--
+        if (failed) {
+          return
+        }
+        if (error) {
+          failed = true
+          callback(error)
+        } else if (remaining === 0) {
+          callback()
+        }
+      })
+    })
+  }
+
+  private _createPacket(payload: Uint8Array) {
+    const packet = new Uint8Array(RTP_HEADER_SIZE + payload.byteLength)
+    const view = new DataView(packet.buffer)
+
+    packet[0] = 0x80
+    packet[1] = (this._packetsSent === 0 ? 0x80 : 0) | (this._payloadType & 0x7f)
+    view.setUint16(2, this._sequence)
+    view.setUint32(4, this._timestamp)
+    view.setUint32(8, this._ssrc)
+    packet.set(payload, RTP_HEADER_SIZE)
+
+    this._sequence = (this._sequence + 1) & 0xffff
+    this._timestamp = (this._timestamp + payload.byteLength / (this._channels * 2)) >>> 0
+    this._packetsSent++
+
+    return packet
+  }
+}
+
+/**
+ * Class that receives audio sent as RTP packets with an L16 payload over UDP, e.g. by an {@link RtpSender}, and delivers
+ * it in the format and the layout given in the options. It is a
+ * {@link https://nodejs.org/docs/latest-v18.x/api/stream.html#class-streamreadable | `stream.Readable`}, so it can be
+ * piped into an {@link AudioOutputStream | `AudioOutputStream`}:
+ *
+ * ```javascript
+ * const params = { channels: 2, sampleRate: 48000 }
+ *
+ * new RtpReceiver({ ...params, port: 5004 })
+ *   .pipe(new AudioOutputStream({ ...params, deviceId, bufferFrames: 480 }))
+ * ```
+ *
+ * The packets go through a jitter buffer, which puts them back in the order of their sequence numbers and delays the
+ * audio to absorb the variations of the network delay. The delay adapts to the interarrival jitter, between
+ * {@link RtpReceiverOptions | `options.minDelay`} and {@link RtpReceiverOptions | `options.maxDelay`}: the buffer
+ * fills up to the delay before delivering audio, and again whenever it runs empty. A missing packet is waited for as
+ * long as less than the delay is buffered, then it is concealed by repeating the previous packet with a fade to
+ * silence, and it is dropped if it arrives after that. The buffer never holds more than the maximum delay: the oldest
+ * packets are dropped to make room for the new ones. See {@link stats} for the counters.
+ *
+ * The audio is delivered as it is read, so the device the receiver is piped into sets the pace. The stream itself only
+ * buffers about 20 ms, the default packet duration of {@link RtpSender}, or a single packet if they are longer, so
+ * that the delay is set by the jitter buffer alone. The receiver follows the first synchronization source it hears
+ * from, and switches to another one only once the first one has been silent for longer than the maximum delay.
+ *
+ * The socket is bound to {@link RtpReceiverOptions | `options.port`} right away, and a `listening` event is emitted
+ * once it is ready. Since the end of the audio can't be told from a network outage, the stream only ends once
+ * {@link close} is called.
+ */
+export class RtpReceiver extends Readable {
+  private _socket: Socket
+  private _ownsSocket: boolean
+  private _channels: number
+  private _sampleRate: number
+  private _format: RtAudioFormat
+  private _nonInterleaved: boolean
+  private _payloadType: number | null
+  private _minDelay: number
+  private _maxDelay: number
+  private _packets: Map<number, RtpPacket>
+  private _packetFrames: number
+  private _ssrc: number | null
+  private _nextSequence: number | null
+  private _isBuffering: boolean
+  private _isReading: boolean
+  private _isClosed: boolean
+  private _lastPlanes: Float32Array[] | null
+  private _repeatedPackets: number
+  private _lastArrival: number
+  private _lastTimestamp: number | null
+  private _jitter: number
+  private _stats: RtpReceiverStats
+  private _onMessage: (message: Uint8Array, remote: RemoteInfo) => void
+  private _onListening: () => void
+  private _onError: (error: Error) => void
+
+  /**
+   * Create an RTP receiver, which starts listening right away
+   *
+   * @param options options for the receiver
+   */
+  constructor(options: RtpReceiverOptions) {
+    // the packet duration is only known once a packet arrives, the stream buffer is sized for the default of 20 ms
+    const packetFrames = Math.round(options.sampleRate * 0.02)
+    const frameSize = options.channels * rtAudioFormatToByteCount(options.format || RtAudioFormat.RTAUDIO_SINT16)
+    super({ highWaterMark: packetFrames * frameSize })
+
+    this._socket = options.socket || createSocket('udp4')
+    this._ownsSocket = !options.socket
+    this._channels = options.channels
+    this._sampleRate = options.sampleRate
+    this._format = options.format || RtAudioFormat.RTAUDIO_SINT16
+    this._nonInterleaved = isNonInterleaved(options.options)
+    this._payloadType = options.payloadType !== undefined ? options.payloadType : null
+    this._minDelay = options.minDelay !== undefined ? options.minDelay : 20
+    this._maxDelay = options.maxDelay !== undefined ? options.maxDelay : 200
+    this._packets = new Map()
+    this._packetFrames = packetFrames
+    this._ssrc = null
+    this._nextSequence = null
+    this._isBuffering = true
+    this._isReading = false
+    this._isClosed = false
+    this._lastPlanes = null
+    this._repeatedPackets = 0
+    this._lastArrival = 0
+    this._lastTimestamp = null
+    this._jitter = 0
+    this._stats = { received: 0, lost: 0, late: 0, duplicates: 0, dropped: 0, underruns: 0, jitter: 0, delay: 0 }
+    this._onMessage = message => this._receive(message)
+    this._onListening = () => this.emit('listening')
+    this._onError = error => this.destroy(error)
+
+    this._socket.on('message', this._onMessage)
+    this._socket.on('listening', this._onListening)
+    this._socket.on('error', this._onError)
+
+    if (this._ownsSocket) {
+      this._socket.bind(options.port || 0, options.address)
+    }
+  }
+
+  /** Get the address the socket is bound to, `null` until it is listening */
+  get address(): AddressInfo | null {
+    try {
+      return this._socket.address()
+    } catch {
+      return null
+    }
+  }
+
+  /** Get the statistics of the received packets and the jitter buffer */
+  get stats(): RtpReceiverStats {
+    return {
+      ...this._stats,
+      jitter: this._jitter / this._sampleRate * 1000,
+      delay: this._targetPackets() * this._packetFrames / this._sampleRate * 1000
+    }
+  }
+
+  /** Stop receiving. The buffered audio is delivered, missing packets concealed, then the stream ends */
+  close(): void {
+    if (this._isClosed) {
+      return
+    }
+
+    this._isClosed = true
+    this._detach()
+    this._playOut()
+  }
+
+  /** @private */
+  _read(_size: number): void {
+    this._isReading = true
+    this._playOut()
+  }
+
+  /** @private */
+  _destroy(error: Error | null, callback: (error?: Error | null | undefined) => void): void {
+    this._isClosed = true
+    this._detach()
+    callback(error)
+  }
+
+  private _detach() {
+    this._socket.removeListener('message', this._onMessage)
+    this._socket.removeListener('listening', this._onListening)
+    this._socket.removeListener('error', this._onError)
+
+    if (this._ownsSocket) {
+      this._socket.close()
+      this._ownsSocket = false
+    }
+  }
+
+  private _receive(message: Uint8Array) {
+    const packet = parsePacket(message)
+
+    if (!packet || packet.payload.byteLength === 0 || (this._payloadType !== null && packet.payloadType !== this._payloadType)) {
+      return
+    }
+
+    const now = Date.now()
+
+    if (packet.ssrc !== this._ssrc) {
+      if (this._ssrc !== null && now - this._lastArrival <= this._maxDelay) {
+        return
+      }
+      this._reset(packet.ssrc)
+    }
+
+    this._updateJitter(packet, now)
+    this._lastArrival = now
+
+    if (this._nextSequence !== null && sequenceDistance(packet.sequence, this._nextSequence) < 0) {
+      this._stats.late++
+      return
+    }
+
+    if (this._packets.has(packet.sequence)) {
+      this._stats.duplicates++
+      return
+    }
+
+    this._packets.set(packet.sequence, packet)
+    this._packetFrames = Math.floor(packet.payload.byteLength / (this._channels * 2))
+    this._stats.received++
+    this._dropOverflow()
+    this._playOut()
+  }
+
+  /** Update the interarrival jitter as defined by RFC 3550, in frames */
+  private _updateJitter(packet: RtpPacket, now: number) {
+    if (this._lastTimestamp !== null) {
+      const arrived = (now - this._lastArrival) / 1000 * this._sampleRate
+      const sent = (packet.timestamp - this._lastTimestamp) | 0
+      this._jitter += (Math.abs(arrived - sent) - this._jitter) / 16
+    }
+
+    this._lastTimestamp = packet.timestamp
+  }
+
+  /** Start over with a new synchronization source */
+  private _reset(ssrc: number) {
+    this._ssrc = ssrc
+    this._packets.clear()
+    this._nextSequence = null
+    this._isBuffering = true
+    this._lastPlanes = null
+    this._repeatedPackets = 0
+    this._lastTimestamp = null
+    this._jitter = 0
+  }
+
+  /** Get the number of packets the jitter buffer aims to hold, from the jitter and the delay limits */
+  private _targetPackets() {
+    const packetDuration = this._packetFrames / this._sampleRate * 1000
+    const delay = Math.min(this._maxDelay, Math.max(this._minDelay, packetDuration + 4 * this._jitter / this._sampleRate * 1000))
+    return Math.max(1, Math.ceil(delay / packetDuration))
+  }
+
+  /** Push the packets that are due while the stream is being read, ending it once it is closed and empty */
+  private _playOut() {
+    while (this._isReading) {
+      const chunk = this._next()
+
+      if (!chunk) {
+        if (this._isClosed && this._packets.size === 0) {
+          this._isReading = false
+          this.push(null)
+        }
+        return
+      }
+
+      this._isReading = this.push(chunk)
+    }
+  }
+
+  /** Get the audio of the next packet, concealing it if it is missing, or `null` if the buffer should wait */
+  private _next(): Uint8Array | null {
+    if (this._packets.size === 0) {
+      if (!this._isBuffering && !this._isClosed) {
+        this._isBuffering = true
+        this._stats.underruns++
+      }
+      return null
+    }
+
+    if (this._isBuffering) {
+      if (this._packets.size < this._targetPackets() && !this._isClosed) {
+        return null
+      }
+
+      this._isBuffering = false
+      if (this._nextSequence === null) {
+        this._nextSequence = this._earliestSequence()
+      }
+    }
+
+    const sequence = this._nextSequence as number
+    const packet = this._packets.get(sequence)
+
+    if (packet) {
+      this._packets.delete(sequence)
+      this._nextSequence = (sequence + 1) & 0xffff
+      this._lastPlanes = this._decode(packet.payload)
+      this._repeatedPackets = 0
+      return encodeChunk(this._lastPlanes, this._format, this._nonInterleaved)
+    }
+
+    if (this._packets.size < this._targetPackets() && !this._isClosed) {
+      return null
+    }
+
+    const earliest = this._earliestSequence()
+
+    if (sequenceDistance(earliest, sequence) > this._maxPackets()) {
+      this._nextSequence = earliest
+      return this._next()
+    }
+
+    this._nextSequence = (sequence + 1) & 0xffff
+    this._stats.lost++
+    return this._conceal()
+  }
+
+  /** Get the number of packets that make up the maximum delay */
+  private _maxPackets() {
+    return Math.max(1, Math.ceil(this._maxDelay / (this._packetFrames / this._sampleRate * 1000)))
+  }
+
+  /** Drop the oldest packets while more than the maximum delay is buffered, skipping the playback past them */
+  private _dropOverflow() {
+    while (this._packets.size > this._maxPackets()) {
+      const earliest = this._earliestSequence()
+
+      this._packets.delete(earliest)
+      this._stats.dropped++
+
+      if (this._nextSequence !== null && sequenceDistance(earliest, this._nextSequence) >= 0) {
+        this._nextSequence = (earliest + 1) & 0xffff
+      }
+    }
+  }
+
+  private _earliestSequence() {
+    return Array.from(this._packets.keys())
+      .reduce((earliest, sequence) => sequenceDistance(sequence, earliest) < 0 ? sequence : earliest)
+  }
+
+  /** Decode 16-bit big-endian interleaved samples into one array per channel */
+  private _decode(payload: Uint8Array) {
+    const frames = Math.floor(payload.byteLength / (this._channels * 2))
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
+    const planes: Float32Array[] = []
+
+    for (let channel = 0; channel < this._channels; channel++) {
+      const plane = new Float32Array(frames)
+      for (let frame = 0; frame < frames; frame++) {
+        plane[frame] = readSample(view, (frame * this._channels + channel) * 2, RtAudioFormat.RTAUDIO_SINT16, false)
+      }
+      planes.push(plane)
+    }
+
+    return planes
+  }
+
+  /** Repeat the last packet, fading it to silence over {@link MAX_REPEATED_PACKETS} packets, then play silence */
+  private _conceal() {
+    if (!this._lastPlanes || this._repeatedPackets >= MAX_REPEATED_PACKETS) {
+      const silence: Float32Array[] = []
+      for (let channel = 0; channel < this._channels; channel++) {
+        silence.push(new Float32Array(this._packetFrames))
+      }
+      return encodeChunk(silence, this._format, this._nonInterleaved)
+    }
+
+    const startGain = 1 - this._repeatedPackets / MAX_REPEATED_PACKETS
+    const endGain = 1 - (this._repeatedPackets + 1) / MAX_REPEATED_PACKETS
+    const planes = this._lastPlanes.map(plane => plane.map((sample, frame) =>
+      sample * (startGain + (endGain - startGain) * (frame + 1) / plane.length)
+    ))
+
+    this._repeatedPackets++
+    return encodeChunk(planes, this._format, this._nonInterleaved)
+  }
+
+  /** @ignore */
+  on(event: 'close', listener: () => void): this
+  /** @ignore */
+  on(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  on(event: 'end', listener: () => void): this
+  /** @ignore */
+  on(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  on(event: 'pause', listener: () => void): this
+  /** @ignore */
+  on(event: 'readable', listener: () => void): this
+  /** @ignore */
+  on(event: 'resume', listener: () => void): this
+  /** @ignore */
+  on(event: 'listening', listener: () => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  addListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  addListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'listening', listener: () => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'close', listener: () => void): this
+  /** @ignore */
+  once(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  once(event: 'end', listener: () => void): this
+  /** @ignore */
+  once(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  once(event: 'pause', listener: () => void): this
+  /** @ignore */
+  once(event: 'readable', listener: () => void): this
+  /** @ignore */
+  once(event: 'resume', listener: () => void): this
+  /** @ignore */
+  once(event: 'listening', listener: () => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  removeListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  removeListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'listening', listener: () => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'close'): boolean
+  /** @ignore */
+  emit(event: 'data', chunk: any): boolean
+  /** @ignore */
+  emit(event: 'end'): boolean
+  /** @ignore */
+  emit(event: 'error', err: Error): boolean
+  /** @ignore */
+  emit(event: 'pause'): boolean
+  /** @ignore */
+  emit(event: 'readable'): boolean
+  /** @ignore */
+  emit(event: 'resume'): boolean
+  /** @ignore */
+  emit(event: 'listening'): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+}
@@ -0,0 +1,108 @@
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isHostLittleEndian, rtAudioFormatToByteCount } from './common'
+
+const clip = (value: number, min: number, max: number) => value < min ? min : value > max ? max : value
+
+/**
+ * Read a single sample and normalize it between plus/minus 1.0. Integer samples are divided by
+ * the magnitude of their minimum value, float samples are returned as they are.
+ *
+ * @param view the view over the audio data
+ * @param byteOffset the offset of the sample
+ * @param format the format of the sample
+ * @param littleEndian the byte order of the sample (default=host byte order)
+ */
+export const readSample = (view: DataView, byteOffset: number, format: RtAudioFormat, littleEndian: boolean = isHostLittleEndian): number => {
+  switch (format) {
+    case RtAudioFormat.RTAUDIO_SINT8: return view.getInt8(byteOffset) / 0x80
+    case RtAudioFormat.RTAUDIO_SINT16: return view.getInt16(byteOffset, littleEndian) / 0x8000
+    case RtAudioFormat.RTAUDIO_SINT32: return view.getInt32(byteOffset, littleEndian) / 0x80000000
+    case RtAudioFormat.RTAUDIO_FLOAT32: return view.getFloat32(byteOffset, littleEndian)
+    case RtAudioFormat.RTAUDIO_FLOAT64: return view.getFloat64(byteOffset, littleEndian)
+  }
+
+  throw new TypeError(`unsupported format: ${format}`)
+}
+
+/**
+ * Write a single sample given between plus/minus 1.0. Integer samples are scaled, rounded and clipped
+ * to the range of the format, float samples are written as they are.
+ *
+ * @param view the view over the audio data
+ * @param byteOffset the offset of the sample
+ * @param format the format of the sample
+ * @param value the normalized value of the sample
+ * @param littleEndian the byte order of the sample (default=host byte order)
+ */
+export const writeSample = (view: DataView, byteOffset: number, format: RtAudioFormat, value: number, littleEndian: boolean = isHostLittleEndian): void => {
+  switch (format) {
+    case RtAudioFormat.RTAUDIO_SINT8:
+      view.setInt8(byteOffset, clip(Math.round(value * 0x80), -0x80, 0x7F))
+      return
+    case RtAudioFormat.RTAUDIO_SINT16:
+      view.setInt16(byteOffset, clip(Math.round(value * 0x8000), -0x8000, 0x7FFF), littleEndian)
+      return
+    case RtAudioFormat.RTAUDIO_SINT32:
+      view.setInt32(byteOffset, clip(Math.round(value * 0x80000000), -0x80000000, 0x7FFFFFFF), littleEndian)
+      return
+    case RtAudioFormat.RTAUDIO_FLOAT32:
+      view.setFloat32(byteOffset, value, littleEndian)
+      return
+    case RtAudioFormat.RTAUDIO_FLOAT64:
+      view.setFloat64(byteOffset, value, littleEndian)
+      return
+  }
+
+  throw new TypeError(`unsupported format: ${format}`)
+}
+
+/**
+ * Decode a chunk into one array of normalized samples per channel
+ *
+ * @param chunk the audio data, which should consist of whole frames
+ * @param format the format of the samples
+ * @param channels the number of channels
+ * @param nonInterleaved whether the channels are back-to-back instead of interleaved
+ */
+export const decodeChunk = (chunk: Uint8Array, format: RtAudioFormat, channels: number, nonInterleaved: boolean = false): Float32Array[] => {
+  const byteCount = rtAudioFormatToByteCount(format)
+  const frames = Math.floor(chunk.byteLength / (channels * byteCount))
+  const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+  const planes: Float32Array[] = []
+
+  for (let channel = 0; channel < channels; channel++) {
+    const plane = new Float32Array(frames)
+    for (let frame = 0; frame < frames; frame++) {
+      const index = nonInterleaved ? channel * frames + frame : frame * channels + channel
+      plane[frame] = readSample(view, index * byteCount, format)
+    }
+    planes.push(plane)
+  }
+
+  return planes
+}
+
+/**
+ * Encode one array of normalized samples per channel into a chunk
+ *
+ * @param planes the samples of each channel, all of the same length
+ * @param format the format of the samples
+ * @param nonInterleaved whether the channels should be back-to-back instead of interleaved
+ */
+export const encodeChunk = (planes: ArrayLike<number>[], format: RtAudioFormat, nonInterleaved: boolean = false): Uint8Array => {
+  const byteCount = rtAudioFormatToByteCount(format)
+  const channels = planes.length
+  const frames = channels > 0 ? planes[0].length : 0
+  const chunk = new Uint8Array(frames * channels * byteCount)
+  const view = new DataView(chunk.buffer)
+
+  for (let channel = 0; channel < channels; channel++) {
+    const plane = planes[channel]
+    for (let frame = 0; frame < frames; frame++) {
+      const index = nonInterleaved ? channel * frames + frame : frame * channels + channel
+      writeSample(view, index * byteCount, format, plane[frame])
+    }
+  }
+
+  return chunk
+}
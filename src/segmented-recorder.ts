@@ -0,0 +1,505 @@
+import { Readable, Writable } from 'stream'
+import { createWriteStream } from 'fs'
+import { extname } from 'path'
+import { isUint8Array } from 'util/types'
+import { RtAudioFormat, RtAudioStreamFlags } from '@hamitzor/rtaudio.js'
+import { interleave, isNonInterleaved, rtAudioFormatToByteCount } from './common'
+import { decodeChunk } from './samples'
+import { WavWriter, WavWriterOptions } from './wav'
+import { PcmParams } from './types'
+
+/** Why a segment of a {@link SegmentedRecorder} was finished */
+export type SegmentReason = 'duration' | 'size' | 'silence' | 'end'
+
+/** A finished segment of a {@link SegmentedRecorder} */
+export type SegmentInfo = {
+  /** the path of the file */
+  path: string
+
+  /** the index of the segment, starting from 0 */
+  index: number
+
+  /** the index of the first frame of the segment among the frames written to the recorder */
+  startFrame: number
+
+  /** the number of frames in the segment */
+  frames: number
+
+  /** the number of bytes of audio data in the segment, before any encoding */
+  bytes: number
+
+  /** the duration of the segment in seconds */
+  duration: number
+
+  /** why the segment was finished */
+  reason: SegmentReason
+}
+
+export type SegmentedRecorderSilenceOptions = {
+  /** the level in dBFS the audio should stay below to be considered silent (default=-50) */
+  threshold?: number
+
+  /** how long the silence should last to finish the segment, in milliseconds (default=2000) */
+  duration?: number
+}
+
+export type SegmentedRecorderTriggerOptions = {
+  /** the level in dBFS the audio should exceed to start a segment (default=-40) */
+  threshold?: number
+
+  /** how much audio before the trigger is included in the segment, in milliseconds (default=2000) */
+  preRoll?: number
+
+  /** how long the audio should stay below the threshold to finish the segment, in milliseconds (default=2000) */
+  hangover?: number
+}
+
+export type SegmentedRecorderOptions = PcmParams & {
+  /**
+   * the path of the segments. A string gets the zero-padded index of the segment inserted before its extension,
+   * e.g. `session.wav` gives `session-0000.wav`, `session-0001.wav` and so on. A function gets the index and returns the path.
+   */
+  path: string | ((index: number) => string)
+
+  /** write WAV files or raw audio data (default='wav') */
+  container?: 'wav' | 'raw'
+
+  /** options for the WAV files, e.g. a codec */
+  wav?: WavWriterOptions
+
+  /** the maximum duration of a segment in milliseconds */
+  maxDuration?: number
+
+  /** the maximum number of bytes of audio data in a segment, before any encoding */
+  maxSize?: number
+
+  /** finish the segment once the audio has been silent for a while, ignored in trigger mode */
+  silence?: SegmentedRecorderSilenceOptions
+
+  /** record only when the level exceeds a threshold, see {@link SegmentedRecorder} */
+  trigger?: SegmentedRecorderTriggerOptions
+}
+
+type Segment = {
+  index: number
+  path: string
+  writer: Writable
+  startFrame: number
+  frames: number
+  error: Error | null
+}
+
+const toDbfs = (value: number) => 20 * Math.log(value) / Math.LN10
+
+/**
+ * Class that records audio into a sequence of files, e.g. to split a long session from an
+ * {@link AudioInputStream | `AudioInputStream`} into files of 10 minutes:
+ *
+ * ```javascript
+ * const recorder = new SegmentedRecorder({ ...params, path: 'session.wav', maxDuration: 10 * 60 * 1000 })
+ *
+ * recorder.on('segment', ({ path, duration }) => console.log(`${path} is ready, ${duration} seconds`))
+ *
+ * pipeline(audioStream, recorder)
+ * ```
+ *
+ * A segment is finished once it reaches {@link SegmentedRecorderOptions | `options.maxDuration`} or
+ * {@link SegmentedRecorderOptions | `options.maxSize`}, or once the audio has been silent for
+ * {@link SegmentedRecorderSilenceOptions | `options.silence.duration`} after some sound. The next segment starts with
+ * the very next frame, the chunks are split between the segments if needed, so nothing is lost at the boundaries.
+ * A `segment` event is emitted once the file of a segment is complete, and the last segment is finished when the
+ * recorder ends.
+ *
+ * In trigger mode ({@link SegmentedRecorderOptions | `options.trigger`}), the last seconds of audio are kept in memory,
+ * and nothing is written until the level exceeds the threshold. The segment then starts with the audio kept in
+ * memory, and finishes once the level stays below the threshold for the hangover.
+ *
+ * WAV files get a complete header each, with the same parameters. The segments are always interleaved, if
+ * `RTAUDIO_NONINTERLEAVED` is set in `options.flags` each incoming chunk should be a whole non-interleaved block, as
+ * {@link AudioInputStream | `AudioInputStream`} delivers it.
+ */
+export class SegmentedRecorder extends Writable {
+  private _params: PcmParams
+  private _path: string | ((index: number) => string)
+  private _container: 'wav' | 'raw'
+  private _wavOptions: WavWriterOptions
+  private _channels: number
+  private _byteCount: number
+  private _frameSize: number
+  private _format: RtAudioFormat
+  private _nonInterleaved: boolean
+  private _blockSize: number
+  private _durationFrames: number
+  private _sizeFrames: number
+  private _silence: Required<SegmentedRecorderSilenceOptions> | null
+  private _trigger: Required<SegmentedRecorderTriggerOptions> | null
+  private _pending: Uint8Array
+  private _segment: Segment | null
+  private _nextIndex: number
+  private _receivedFrames: number
+  private _silentFrames: number
+  private _hasSound: boolean
+  private _isTriggered: boolean
+  private _preRoll: Uint8Array[]
+  private _preRollFrames: number
+
+  /**
+   * Create a segmented recorder
+   *
+   * @param options options for the recording
+   */
+  constructor(options: SegmentedRecorderOptions) {
+    super({ emitClose: true })
+
+    const toFrames = (ms: number) => Math.round(ms / 1000 * options.sampleRate)
+
+    this._format = options.format || RtAudioFormat.RTAUDIO_SINT16
+    this._channels = options.channels
+    this._byteCount = rtAudioFormatToByteCount(this._format)
+    this._frameSize = options.channels * this._byteCount
+    this._nonInterleaved = isNonInterleaved(options.options)
+    this._blockSize = this._nonInterleaved ? options.bufferFrames * this._frameSize : this._frameSize
+    this._params = {
+      channels: options.channels,
+      sampleRate: options.sampleRate,
+      format: this._format,
+      bufferFrames: options.bufferFrames,
+      options: { ...options.options, flags: ((options.options && options.options.flags) || 0) & ~RtAudioStreamFlags.RTAUDIO_NONINTERLEAVED }
+    }
+    this._path = options.path
+    this._container = options.container || 'wav'
+    this._wavOptions = options.wav || {}
+    this._durationFrames = options.maxDuration !== undefined ? Math.max(1, toFrames(options.maxDuration)) : Infinity
+    this._sizeFrames = options.maxSize !== undefined ? Math.max(1, Math.floor(options.maxSize / this._frameSize)) : Infinity
+    this._silence = options.silence ? {
+      threshold: -50,
+      duration: 2000,
+      ...options.silence
+    } : null
+    this._trigger = options.trigger ? {
+      threshold: -40,
+      preRoll: 2000,
+      hangover: 2000,
+      ...options.trigger
+    } : null
+    this._pending = new Uint8Array(0)
+    this._segment = null
+    this._nextIndex = 0
+    this._receivedFrames = 0
+    this._silentFrames = 0
+    this._hasSound = false
+    this._isTriggered = false
+    this._preRoll = []
+    this._preRollFrames = 0
+
+    if (this._nonInterleaved && !(options.bufferFrames > 0)) {
+      throw new TypeError('bufferFrames is required for non-interleaved audio')
+    }
+  }
+
+  /** Get the path of the segment being written, `null` if none is */
+  get currentPath(): string | null { return this._segment ? this._segment.path : null }
+
+  /** Whether the level exceeded the threshold and the audio is being recorded, in trigger mode */
+  get isTriggered(): boolean { return this._isTriggered }
+
+  /** @private */
+  _write(chunk: Uint8Array, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    if (!isUint8Array(chunk)) {
+      throw new TypeError('chunk should be an instance of Uint8Array')
+    }
+
+    const data = new Uint8Array(this._pending.byteLength + chunk.byteLength)
+    data.set(this._pending, 0)
+    data.set(chunk, this._pending.byteLength)
+
+    const length = data.byteLength - data.byteLength % this._blockSize
+    this._pending = data.slice(length)
+
+    let block = data.subarray(0, length)
+    if (this._nonInterleaved) {
+      block = block.slice()
+      for (let offset = 0; offset < length; offset += this._blockSize) {
+        block.set(interleave(block.subarray(offset, offset + this._blockSize), this._channels, this._byteCount), offset)
+      }
+    }
+
+    this._process(block).then(() => callback(), callback)
+  }
+
+  /** @private */
+  _final(callback: (error?: Error | null) => void): void {
+    const finish = this._segment ? this._finishSegment('end') : Promise.resolve()
+    finish.then(() => callback(), callback)
+  }
+
+  /** @private */
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    if (this._segment) {
+      this._segment.writer.destroy()
+      this._segment = null
+    }
+    this._preRoll = []
+    callback(error)
+  }
+
+  private async _process(data: Uint8Array) {
+    if (data.byteLength === 0) {
+      return
+    }
+
+    const frames = data.byteLength / this._frameSize
+    const startFrame = this._receivedFrames
+    const threshold = this._trigger ? this._trigger.threshold : this._silence ? this._silence.threshold : -Infinity
+    const isLoud = this._measure(data) > threshold
+
+    this._receivedFrames += frames
+    this._silentFrames = isLoud ? 0 : this._silentFrames + frames
+
+    if (this._trigger) {
+      if (!this._isTriggered) {
+        if (!isLoud) {
+          this._addPreRoll(data)
+          return
+        }
+
+        const preRoll = this._preRoll
+        const preRollFrames = this._preRollFrames
+        this._preRoll = []
+        this._preRollFrames = 0
+        this._isTriggered = true
+
+        let frame = startFrame - preRollFrames
+        for (const chunk of preRoll) {
+          await this._append(chunk, frame)
+          frame += chunk.byteLength / this._frameSize
+        }
+      }
+
+      await this._append(data, startFrame)
+
+      if (this._silentFrames >= this._toFrames(this._trigger.hangover)) {
+        this._isTriggered = false
+        if (this._segment) {
+          await this._finishSegment('silence')
+        }
+      }
+      return
+    }
+
+    await this._append(data, startFrame)
+
+    if (isLoud) {
+      this._hasSound = true
+    }
+
+    if (this._silence && this._segment && this._hasSound && this._silentFrames >= this._toFrames(this._silence.duration)) {
+      await this._finishSegment('silence')
+    }
+  }
+
+  /** Write to the current segment, starting a new one when needed, and finish it once it is full */
+  private async _append(data: Uint8Array, startFrame: number) {
+    const limit = Math.min(this._durationFrames, this._sizeFrames)
+    let offset = 0
+
+    while (offset < data.byteLength) {
+      const segment = this._segment || this._startSegment(startFrame + offset / this._frameSize)
+      const length = Math.min((limit - segment.frames) * this._frameSize, data.byteLength - offset)
+
+      await new Promise<void>((resolve, reject) => {
+        segment.writer.write(data.subarray(offset, offset + length), error => error ? reject(error) : resolve())
+      })
+
+      segment.frames += length / this._frameSize
+      offset += length
+
+      if (segment.frames >= limit) {
+        await this._finishSegment(this._durationFrames <= this._sizeFrames ? 'duration' : 'size')
+      }
+    }
+  }
+
+  private _startSegment(startFrame: number) {
+    const index = this._nextIndex++
+    const path = this._pathOf(index)
+    const writer = this._container === 'raw' ? createWriteStream(path) : new WavWriter(path, this._params, this._wavOptions)
+    const segment: Segment = { index, path, writer, startFrame, frames: 0, error: null }
+
+    writer.on('error', error => {
+      segment.error = error
+    })
+
+    this._segment = segment
+    this._hasSound = false
+    return segment
+  }
+
+  private async _finishSegment(reason: SegmentReason) {
+    const segment = this._segment as Segment
+    this._segment = null
+
+    await new Promise<void>((resolve, reject) => {
+      segment.writer.once('close', () => segment.error ? reject(segment.error) : resolve())
+      segment.writer.end()
+    })
+
+    const info: SegmentInfo = {
+      path: segment.path,
+      index: segment.index,
+      startFrame: segment.startFrame,
+      frames: segment.frames,
+      bytes: segment.frames * this._frameSize,
+      duration: segment.frames / this._params.sampleRate,
+      reason
+    }
+    this.emit('segment', info)
+  }
+
+  /** Keep the last chunks up to the pre-roll duration, trimmed to the frame */
+  private _addPreRoll(data: Uint8Array) {
+    const maxFrames = this._toFrames((this._trigger as Required<SegmentedRecorderTriggerOptions>).preRoll)
+
+    this._preRoll.push(data)
+    this._preRollFrames += data.byteLength / this._frameSize
+
+    while (this._preRollFrames > maxFrames) {
+      const excess = this._preRollFrames - maxFrames
+      const first = this._preRoll[0]
+      const frames = first.byteLength / this._frameSize
+
+      if (frames <= excess) {
+        this._preRoll.shift()
+        this._preRollFrames -= frames
+      } else {
+        this._preRoll[0] = first.subarray(excess * this._frameSize)
+        this._preRollFrames -= excess
+      }
+    }
+  }
+
+  /** Get the level of the loudest channel in dBFS */
+  private _measure(data: Uint8Array) {
+    const planes = decodeChunk(data, this._format, this._channels, false)
+    let max = 0
+
+    planes.forEach(samples => {
+      let sumOfSquares = 0
+      for (let i = 0; i < samples.length; i++) {
+        sumOfSquares += samples[i] * samples[i]
+      }
+      max = Math.max(max, sumOfSquares / samples.length)
+    })
+
+    return toDbfs(Math.sqrt(max))
+  }
+
+  private _toFrames(ms: number) {
+    return Math.round(ms / 1000 * this._params.sampleRate)
+  }
+
+  private _pathOf(index: number) {
+    if (typeof this._path === 'function') {
+      return this._path(index)
+    }
+
+    const extension = extname(this._path)
+    const suffix = `-${String(index).padStart(4, '0')}`
+    return this._path.slice(0, this._path.length - extension.length) + suffix + extension
+  }
+
+  /** @ignore */
+  on(event: 'close', listener: () => void): this
+  /** @ignore */
+  on(event: 'drain', listener: () => void): this
+  /** @ignore */
+  on(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  on(event: 'finish', listener: () => void): this
+  /** @ignore */
+  on(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'segment', listener: (info: SegmentInfo) => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  addListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'segment', listener: (info: SegmentInfo) => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'close', listener: () => void): this
+  /** @ignore */
+  once(event: 'drain', listener: () => void): this
+  /** @ignore */
+  once(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  once(event: 'finish', listener: () => void): this
+  /** @ignore */
+  once(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'segment', listener: (info: SegmentInfo) => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  removeListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'segment', listener: (info: SegmentInfo) => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'close'): boolean
+  /** @ignore */
+  emit(event: 'drain'): boolean
+  /** @ignore */
+  emit(event: 'error', err: Error): boolean
+  /** @ignore */
+  emit(event: 'finish'): boolean
+  /** @ignore */
+  emit(event: 'pipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'unpipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'segment', info: SegmentInfo): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+}
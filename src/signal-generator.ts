@@ -0,0 +1,286 @@
+import { Readable } from 'stream'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved } from './common'
+import { encodeChunk } from './samples'
+import { PcmParams } from './types'
+
+/**
+ * The signal produced by a {@link SignalGenerator}
+ *
+ * - `sine`: a sine wave at `frequency`
+ * - `square`: a square wave at `frequency`, not band-limited
+ * - `white-noise`: uniformly distributed white noise
+ * - `pink-noise`: noise with equal energy per octave
+ * - `sweep`: a logarithmic sine sweep from `frequency` to `endFrequency`
+ * - `dtmf`: the dual tones of the telephone keypad for `digits`
+ */
+export type SignalType = 'sine' | 'square' | 'white-noise' | 'pink-noise' | 'sweep' | 'dtmf'
+
+export type SignalGeneratorOptions = PcmParams & {
+  /** the signal to generate */
+  signal: SignalType
+
+  /**
+   * the frequency in Hz, either one for all the channels or one per channel (default=440).
+   * It is the start frequency of a sweep (default=20), and is ignored by noise and DTMF.
+   */
+  frequency?: number | number[]
+
+  /** the peak amplitude between 0 and 1, either one for all the channels or one per channel (default=0.5) */
+  amplitude?: number | number[]
+
+  /** the duration in milliseconds, after which the stream ends. The signal is generated endlessly when omitted. */
+  duration?: number
+
+  /**
+   * the end frequency of a sweep in Hz, either one for all the channels or one per channel
+   * (default=20000, or the Nyquist frequency if lower)
+   */
+  endFrequency?: number | number[]
+
+  /** the duration of a sweep in milliseconds, the sweep restarts after it (default=`duration`, or 1000 when endless) */
+  sweepDuration?: number
+
+  /** the keys to dial for DTMF, among `0-9`, `A-D`, `*` and `#`, repeated after the last one (default='0123456789*#') */
+  digits?: string
+
+  /** the duration of a DTMF tone in milliseconds (default=100) */
+  toneDuration?: number
+
+  /** the duration of the silence after a DTMF tone in milliseconds (default=100) */
+  pauseDuration?: number
+
+  /** the seed of the noise, to generate the same noise on every run (default=random) */
+  seed?: number
+}
+
+const DTMF_ROWS = [697, 770, 852, 941]
+const DTMF_COLUMNS = [1209, 1336, 1477, 1633]
+const DTMF_KEYS = ['123A', '456B', '789C', '*0#D']
+
+/** Get the row and column frequencies of a DTMF key */
+const getDtmfFrequencies = (key: string): [number, number] => {
+  for (let row = 0; row < DTMF_KEYS.length; row++) {
+    const column = DTMF_KEYS[row].indexOf(key.toUpperCase())
+    if (column !== -1) {
+      return [DTMF_ROWS[row], DTMF_COLUMNS[column]]
+    }
+  }
+  throw new RangeError(`invalid DTMF key '${key}'`)
+}
+
+/** Spread a per-channel option over all the channels */
+const perChannel = (value: number | number[] | undefined, channels: number, defaultValue: number) => {
+  const values: number[] = []
+  for (let channel = 0; channel < channels; channel++) {
+    if (value === undefined) {
+      values.push(defaultValue)
+    } else if (typeof value === 'number') {
+      values.push(value)
+    } else {
+      if (value.length !== channels) {
+        throw new RangeError(`expected ${channels} values, got ${value.length}`)
+      }
+      values.push(value[channel])
+    }
+  }
+  return values
+}
+
+/** Mulberry32, a small seedable generator so that the noise can be reproduced */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Class that generates test signals, e.g. to check the wiring of the speakers one channel at a time:
+ *
+ * ```javascript
+ * pipeline(
+ *   new SignalGenerator({ ...params, signal: 'sine', frequency: [440, 880], amplitude: [0.5, 0], duration: 2000 }),
+ *   new AudioOutputStream(params)
+ * )
+ * ```
+ *
+ * The generator takes the `channels`, `sampleRate`, `format`, `bufferFrames` and `options` of the
+ * {@link AudioOutputStream | `AudioOutputStream`} it feeds, and emits chunks of exactly `bufferFrames` frames
+ * in that format and layout, only the last chunk of a limited `duration` may be shorter.
+ *
+ * The frequency and the amplitude can be set per channel. Noise is independent on each channel.
+ */
+export class SignalGenerator extends Readable {
+  private _signal: SignalType
+  private _channels: number
+  private _sampleRate: number
+  private _format: RtAudioFormat
+  private _nonInterleaved: boolean
+  private _bufferFrames: number
+  private _frequencies: number[]
+  private _endFrequencies: number[]
+  private _amplitudes: number[]
+  private _totalFrames: number
+  private _sweepFrames: number
+  private _digits: string
+  private _toneFrames: number
+  private _pauseFrames: number
+  private _random: () => number
+  private _phases: number[]
+  private _pinkStates: Float64Array[]
+  private _position: number
+
+  /**
+   * Create a signal generator
+   *
+   * @param options options for the signal
+   */
+  constructor(options: SignalGeneratorOptions) {
+    super()
+
+    const sampleRate = options.sampleRate
+    const channels = options.channels
+    const defaultFrequency = options.signal === 'sweep' ? 20 : 440
+    const msToFrames = (ms: number) => Math.round(ms * sampleRate / 1000)
+
+    this._signal = options.signal
+    this._channels = channels
+    this._sampleRate = sampleRate
+    this._format = options.format || RtAudioFormat.RTAUDIO_SINT16
+    this._nonInterleaved = isNonInterleaved(options.options)
+    this._bufferFrames = options.bufferFrames
+    this._frequencies = perChannel(options.frequency, channels, defaultFrequency)
+    this._endFrequencies = perChannel(options.endFrequency, channels, Math.min(20000, sampleRate / 2))
+    this._amplitudes = perChannel(options.amplitude, channels, 0.5)
+    this._totalFrames = options.duration !== undefined ? msToFrames(options.duration) : Infinity
+    this._sweepFrames = msToFrames(options.sweepDuration !== undefined ? options.sweepDuration : options.duration || 1000)
+    this._digits = options.digits !== undefined ? options.digits : '0123456789*#'
+    this._toneFrames = msToFrames(options.toneDuration !== undefined ? options.toneDuration : 100)
+    this._pauseFrames = msToFrames(options.pauseDuration !== undefined ? options.pauseDuration : 100)
+    this._random = createRandom(options.seed !== undefined ? options.seed : Math.random() * 4294967296)
+    this._phases = this._frequencies.map(() => 0)
+    this._pinkStates = this._phases.map(() => new Float64Array(7))
+    this._position = 0
+
+    if (!(this._bufferFrames > 0)) {
+      throw new RangeError('bufferFrames should be greater than 0')
+    }
+
+    if (options.signal === 'sweep' && this._sweepFrames <= 0) {
+      throw new RangeError('sweepDuration should be greater than 0')
+    }
+
+    if (options.signal === 'dtmf') {
+      if (this._digits.length === 0 || this._toneFrames + this._pauseFrames <= 0) {
+        throw new RangeError('DTMF requires at least one digit and a tone or pause duration')
+      }
+      this._digits.split('').forEach(getDtmfFrequencies)
+    }
+  }
+
+  /** Get the signal being generated */
+  get signal(): SignalType { return this._signal }
+
+  /** Get the number of seconds generated so far */
+  get time(): number { return this._position / this._sampleRate }
+
+  /** @private */
+  _read(_size: number): void {
+    let wantsData = true
+
+    while (wantsData) {
+      const frames = Math.min(this._bufferFrames, this._totalFrames - this._position)
+
+      if (frames <= 0) {
+        this.push(null)
+        return
+      }
+
+      const planes = this._frequencies.map(() => new Float32Array(frames))
+      for (let channel = 0; channel < this._channels; channel++) {
+        this._generate(channel, planes[channel])
+      }
+      this._position += frames
+
+      wantsData = this.push(encodeChunk(planes, this._format, this._nonInterleaved))
+    }
+  }
+
+  /** Fill the samples of a channel, starting at the current position */
+  private _generate(channel: number, samples: Float32Array) {
+    const amplitude = this._amplitudes[channel]
+    const frequency = this._frequencies[channel]
+    const sampleRate = this._sampleRate
+
+    switch (this._signal) {
+      case 'sine':
+      case 'square': {
+        const step = 2 * Math.PI * frequency / sampleRate
+        let phase = this._phases[channel]
+        for (let i = 0; i < samples.length; i++) {
+          const value = Math.sin(phase)
+          samples[i] = amplitude * (this._signal === 'sine' ? value : value >= 0 ? 1 : -1)
+          phase = (phase + step) % (2 * Math.PI)
+        }
+        this._phases[channel] = phase
+        break
+      }
+      case 'white-noise':
+        for (let i = 0; i < samples.length; i++) {
+          samples[i] = amplitude * (this._random() * 2 - 1)
+        }
+        break
+      case 'pink-noise': {
+        // Paul Kellet's refined filter, accurate to 0.05 dB above 9.2 Hz at 44.1 kHz
+        const b = this._pinkStates[channel]
+        for (let i = 0; i < samples.length; i++) {
+          const white = this._random() * 2 - 1
+          b[0] = 0.99886 * b[0] + white * 0.0555179
+          b[1] = 0.99332 * b[1] + white * 0.0750759
+          b[2] = 0.96900 * b[2] + white * 0.1538520
+          b[3] = 0.86650 * b[3] + white * 0.3104856
+          b[4] = 0.55000 * b[4] + white * 0.5329522
+          b[5] = -0.7616 * b[5] - white * 0.0168980
+          const pink = b[0] + b[1] + b[2] + b[3] + b[4] + b[5] + b[6] + white * 0.5362
+          b[6] = white * 0.115926
+          samples[i] = amplitude * Math.max(-1, Math.min(1, pink * 0.11))
+        }
+        break
+      }
+      case 'sweep': {
+        // the phase of an exponential sweep is known in closed form, so it restarts cleanly every period
+        const duration = this._sweepFrames / sampleRate
+        const rate = Math.log(this._endFrequencies[channel] / frequency)
+        for (let i = 0; i < samples.length; i++) {
+          const t = ((this._position + i) % this._sweepFrames) / sampleRate
+          const phase = rate === 0
+            ? 2 * Math.PI * frequency * t
+            : 2 * Math.PI * frequency * duration / rate * (Math.exp(t / duration * rate) - 1)
+          samples[i] = amplitude * Math.sin(phase)
+        }
+        break
+      }
+      case 'dtmf': {
+        const period = this._toneFrames + this._pauseFrames
+        for (let i = 0; i < samples.length; i++) {
+          const position = this._position + i
+          const offset = position % period
+          if (offset >= this._toneFrames) {
+            samples[i] = 0
+            continue
+          }
+          const key = this._digits[Math.floor(position / period) % this._digits.length]
+          const [low, high] = getDtmfFrequencies(key)
+          const t = offset / sampleRate
+          samples[i] = amplitude / 2 * (Math.sin(2 * Math.PI * low * t) + Math.sin(2 * Math.PI * high * t))
+        }
+        break
+      }
+    }
+  }
+}
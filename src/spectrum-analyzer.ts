@@ -0,0 +1,447 @@
+import { Readable, Transform, TransformCallback } from 'stream'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, rtAudioFormatToByteCount } from './common'
+import { decodeChunk } from './samples'
+import { WindowFunction, createWindow, fft, isPowerOfTwo } from './fft'
+import { PcmParams } from './types'
+
+export type SpectrumAnalyzerOptions = Pick<PcmParams, 'channels' | 'sampleRate' | 'format' | 'options'> & {
+  /** the number of frames in a block, only required when `RTAUDIO_NONINTERLEAVED` is set in `options.flags` */
+  bufferFrames?: number
+
+  /** the number of frames in a transform, a power of two (default=2048) */
+  fftSize?: number
+
+  /** the window function applied before each transform (default='blackman') */
+  window?: WindowFunction
+
+  /** the fraction of a transform shared with the next one, between 0 and 1 exclusive (default=0.5) */
+  overlap?: number
+
+  /** the weight of the previous spectrum in the current one, between 0 and 1 exclusive, like `smoothingTimeConstant` of Web Audio (default=0.8) */
+  smoothing?: number
+
+  /** the channel to analyze, all the channels are mixed together when omitted */
+  channel?: number
+}
+
+/** A frequency-domain frame emitted by a {@link SpectrumAnalyzer} */
+export type Spectrum = {
+  /** the magnitude of each bin from DC up to the Nyquist frequency, in dBFS of a sine, `-Infinity` for silence */
+  magnitudes: Float32Array
+
+  /** the width of a bin in Hz, bin `i` is centered at `i * binWidth` */
+  binWidth: number
+
+  /** the index of the first frame of the transform */
+  frame: number
+
+  /** the time of the first frame of the transform, in seconds since the analyzer started */
+  time: number
+}
+
+const toDb = (value: number) => 20 * Math.log(value) / Math.LN10
+
+/**
+ * Class that analyzes the spectrum of an audio stream, similar to the `AnalyserNode` of Web Audio. It can be
+ * put after an {@link AudioInputStream | `AudioInputStream`} or before an {@link AudioOutputStream | `AudioOutputStream`}:
+ *
+ * ```javascript
+ * const analyzer = new SpectrumAnalyzer({ ...params, fftSize: 4096 })
+ *
+ * analyzer.on('spectrum', spectrum => {
+ *   console.log('dominant frequency', analyzer.getDominantFrequency(spectrum))
+ *   console.log('bass energy', analyzer.getBandEnergy(20, 250, spectrum))
+ * })
+ *
+ * pipeline(audioStream, analyzer, new AudioOutputStream(params))
+ * ```
+ *
+ * The audio is passed through unchanged. It is decoded from its format and layout, the channels are mixed
+ * together unless {@link SpectrumAnalyzerOptions | `options.channel`} is given, and a `spectrum` event is emitted
+ * for every transform. Consecutive transforms overlap by {@link SpectrumAnalyzerOptions | `options.overlap`}.
+ *
+ * As with Web Audio, the magnitudes are smoothed over time before they are converted to decibels.
+ * They are scaled so that a full scale sine reads 0 dB in its bin.
+ */
+export class SpectrumAnalyzer extends Transform {
+  private _channels: number
+  private _sampleRate: number
+  private _format: RtAudioFormat
+  private _frameSize: number
+  private _nonInterleaved: boolean
+  private _bufferFrames: number
+  private _fftSize: number
+  private _hopFrames: number
+  private _smoothing: number
+  private _channel: number | null
+  private _window: Float64Array
+  private _scale: number
+  private _noiseBandwidth: number
+  private _pending: Uint8Array
+  private _samples: Float64Array
+  private _length: number
+  private _frame: number
+  private _smoothed: Float64Array
+  private _spectrum: Spectrum | null
+
+  /**
+   * Create a spectrum analyzer
+   *
+   * @param options options for the analysis
+   */
+  constructor(options: SpectrumAnalyzerOptions) {
+    super()
+
+    const overlap = options.overlap !== undefined ? options.overlap : 0.5
+
+    this._channels = options.channels
+    this._sampleRate = options.sampleRate
+    this._format = options.format || RtAudioFormat.RTAUDIO_SINT16
+    this._frameSize = options.channels * rtAudioFormatToByteCount(this._format)
+    this._nonInterleaved = isNonInterleaved(options.options)
+    this._bufferFrames = options.bufferFrames || 0
+    this._fftSize = options.fftSize || 2048
+    this._hopFrames = Math.max(1, Math.round(this._fftSize * (1 - overlap)))
+    this._smoothing = options.smoothing !== undefined ? options.smoothing : 0.8
+    this._channel = options.channel !== undefined ? options.channel : null
+    this._window = createWindow(options.window || 'blackman', this._fftSize)
+    this._pending = new Uint8Array(0)
+    this._samples = new Float64Array(this._fftSize)
+    this._length = 0
+    this._frame = 0
+    this._smoothed = new Float64Array(this._fftSize / 2 + 1)
+    this._spectrum = null
+
+    if (this._nonInterleaved && !this._bufferFrames) {
+      throw new TypeError('bufferFrames is required for non-interleaved audio')
+    }
+
+    if (!isPowerOfTwo(this._fftSize)) {
+      throw new RangeError('fftSize should be a power of two')
+    }
+
+    if (!(overlap >= 0 && overlap < 1) || !(this._smoothing >= 0 && this._smoothing < 1)) {
+      throw new RangeError('overlap and smoothing should be between 0 and 1 exclusive')
+    }
+
+    if (this._channel !== null && !(this._channel >= 0 && this._channel < this._channels)) {
+      throw new RangeError(`channel should be between 0 and ${this._channels - 1}`)
+    }
+
+    let sum = 0
+    let sumOfSquares = 0
+    this._window.forEach(value => {
+      sum += value
+      sumOfSquares += value * value
+    })
+    this._scale = 2 / sum
+    this._noiseBandwidth = this._fftSize * sumOfSquares / (sum * sum)
+  }
+
+  /** Get the number of frames in a transform */
+  get fftSize(): number { return this._fftSize }
+
+  /** Get the number of bins in a spectrum, from DC up to the Nyquist frequency */
+  get frequencyBinCount(): number { return this._fftSize / 2 + 1 }
+
+  /** Get the width of a bin in Hz */
+  get binWidth(): number { return this._sampleRate / this._fftSize }
+
+  /** Get the last spectrum, `null` until the first transform */
+  get spectrum(): Spectrum | null { return this._spectrum }
+
+  /**
+   * Get the frequency with the highest magnitude, refined between the bins by parabolic interpolation
+   *
+   * @param spectrum the spectrum to search (default=the last spectrum)
+   * @returns the frequency in Hz, `NaN` if there is no spectrum yet or it is silent
+   */
+  getDominantFrequency(spectrum: Spectrum | null = this._spectrum): number {
+    if (!spectrum) {
+      return NaN
+    }
+
+    const magnitudes = spectrum.magnitudes
+    let peak = -1
+
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      if (magnitudes[bin] > -Infinity && (peak === -1 || magnitudes[bin] > magnitudes[peak])) {
+        peak = bin
+      }
+    }
+
+    if (peak === -1) {
+      return NaN
+    }
+
+    if (peak === magnitudes.length - 1 || magnitudes[peak - 1] === -Infinity || magnitudes[peak + 1] === -Infinity) {
+      return peak * spectrum.binWidth
+    }
+
+    const left = magnitudes[peak - 1]
+    const center = magnitudes[peak]
+    const right = magnitudes[peak + 1]
+    const denominator = left - 2 * center + right
+    const offset = denominator === 0 ? 0 : 0.5 * (left - right) / denominator
+
+    return (peak + offset) * spectrum.binWidth
+  }
+
+  /**
+   * Get the energy of a frequency band, as the RMS level the band would have on its own
+   *
+   * @param low the lower edge of the band in Hz, inclusive
+   * @param high the upper edge of the band in Hz, exclusive
+   * @param spectrum the spectrum to measure (default=the last spectrum)
+   * @returns the level in dBFS, `-Infinity` if there is no spectrum yet or the band is silent
+   */
+  getBandEnergy(low: number, high: number, spectrum: Spectrum | null = this._spectrum): number {
+    if (!spectrum) {
+      return -Infinity
+    }
+
+    const magnitudes = spectrum.magnitudes
+    const first = Math.max(0, Math.ceil(low / spectrum.binWidth))
+    const last = Math.min(magnitudes.length, Math.ceil(high / spectrum.binWidth))
+    let sumOfSquares = 0
+
+    for (let bin = first; bin < last; bin++) {
+      sumOfSquares += Math.pow(10, magnitudes[bin] / 10)
+    }
+
+    return 10 * Math.log(sumOfSquares / (2 * this._noiseBandwidth)) / Math.LN10
+  }
+
+  /**
+   * Get the energies of adjacent frequency bands, e.g. `[20, 250, 4000, 20000]` for the bass, mid and treble
+   *
+   * @param edges the edges of the bands in Hz, in increasing order
+   * @param spectrum the spectrum to measure (default=the last spectrum)
+   * @returns the level of each band in dBFS, see {@link getBandEnergy}
+   */
+  getBandEnergies(edges: number[], spectrum: Spectrum | null = this._spectrum): number[] {
+    const energies: number[] = []
+    for (let i = 0; i + 1 < edges.length; i++) {
+      energies.push(this.getBandEnergy(edges[i], edges[i + 1], spectrum))
+    }
+    return energies
+  }
+
+  /** @private */
+  _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.push(chunk)
+
+    const data = new Uint8Array(this._pending.byteLength + chunk.byteLength)
+    data.set(this._pending, 0)
+    data.set(chunk, this._pending.byteLength)
+
+    const blockSize = this._nonInterleaved ? this._bufferFrames * this._frameSize : this._frameSize
+    const length = data.byteLength - data.byteLength % blockSize
+    this._pending = data.slice(length)
+
+    const step = this._nonInterleaved ? blockSize : length
+    for (let offset = 0; offset < length; offset += step) {
+      this._append(decodeChunk(data.subarray(offset, offset + step), this._format, this._channels, this._nonInterleaved))
+    }
+
+    callback()
+  }
+
+  private _append(planes: Float32Array[]) {
+    const frames = planes.length > 0 ? planes[0].length : 0
+
+    for (let frame = 0; frame < frames; frame++) {
+      let value = 0
+      if (this._channel !== null) {
+        value = planes[this._channel][frame]
+      } else {
+        for (let channel = 0; channel < this._channels; channel++) {
+          value += planes[channel][frame]
+        }
+        value /= this._channels
+      }
+
+      this._samples[this._length++] = value
+
+      if (this._length === this._fftSize) {
+        this._analyze()
+        this._samples.copyWithin(0, this._hopFrames)
+        this._length -= this._hopFrames
+        this._frame += this._hopFrames
+      }
+    }
+  }
+
+  private _analyze() {
+    const size = this._fftSize
+    const real = new Float64Array(size)
+    const imaginary = new Float64Array(size)
+
+    for (let i = 0; i < size; i++) {
+      real[i] = this._samples[i] * this._window[i]
+    }
+
+    fft(real, imaginary)
+
+    const magnitudes = new Float32Array(this._smoothed.length)
+    for (let bin = 0; bin < magnitudes.length; bin++) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imaginary[bin] * imaginary[bin]) * this._scale
+      this._smoothed[bin] = this._smoothing * this._smoothed[bin] + (1 - this._smoothing) * magnitude
+      magnitudes[bin] = toDb(this._smoothed[bin])
+    }
+
+    this._spectrum = {
+      magnitudes,
+      binWidth: this.binWidth,
+      frame: this._frame,
+      time: this._frame / this._sampleRate
+    }
+    this.emit('spectrum', this._spectrum)
+  }
+
+  /** @ignore */
+  on(event: 'close', listener: () => void): this
+  /** @ignore */
+  on(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  on(event: 'drain', listener: () => void): this
+  /** @ignore */
+  on(event: 'end', listener: () => void): this
+  /** @ignore */
+  on(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  on(event: 'finish', listener: () => void): this
+  /** @ignore */
+  on(event: 'pause', listener: () => void): this
+  /** @ignore */
+  on(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'readable', listener: () => void): this
+  /** @ignore */
+  on(event: 'resume', listener: () => void): this
+  /** @ignore */
+  on(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'spectrum', listener: (spectrum: Spectrum) => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  addListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  addListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'spectrum', listener: (spectrum: Spectrum) => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'close', listener: () => void): this
+  /** @ignore */
+  once(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  once(event: 'drain', listener: () => void): this
+  /** @ignore */
+  once(event: 'end', listener: () => void): this
+  /** @ignore */
+  once(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  once(event: 'finish', listener: () => void): this
+  /** @ignore */
+  once(event: 'pause', listener: () => void): this
+  /** @ignore */
+  once(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'readable', listener: () => void): this
+  /** @ignore */
+  once(event: 'resume', listener: () => void): this
+  /** @ignore */
+  once(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'spectrum', listener: (spectrum: Spectrum) => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  removeListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  removeListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'spectrum', listener: (spectrum: Spectrum) => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'close'): boolean
+  /** @ignore */
+  emit(event: 'data', chunk: any): boolean
+  /** @ignore */
+  emit(event: 'drain'): boolean
+  /** @ignore */
+  emit(event: 'end'): boolean
+  /** @ignore */
+  emit(event: 'error', err: Error): boolean
+  /** @ignore */
+  emit(event: 'finish'): boolean
+  /** @ignore */
+  emit(event: 'pause'): boolean
+  /** @ignore */
+  emit(event: 'pipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'readable'): boolean
+  /** @ignore */
+  emit(event: 'resume'): boolean
+  /** @ignore */
+  emit(event: 'unpipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'spectrum', spectrum: Spectrum): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+}
@@ -1,4 +1,28 @@
 import { RtAudioApi, RtAudioFormat, StreamOptions } from '@hamitzor/rtaudio.js'
+import { AudioBackendFactory } from './backend'
+import { DeviceWatcher } from './device-watcher'
+
+/**
+ * What an output stream plays when less than a chunk is queued:
+ *
+ *  - `silence-fill`: silence, the partial data waits for more data to complete a chunk
+ *  - `zero-pad-partial`: the partial data padded with silence, or silence if nothing is queued
+ *  - `repeat-last-chunk`: the last chunk played once more
+ *  - `fade-out-on-underrun`: the last chunk faded out to silence, then silence
+ */
+export type UnderrunPolicy = 'silence-fill' | 'zero-pad-partial' | 'repeat-last-chunk' | 'fade-out-on-underrun'
+
+/** How a stream picks another device when its device is lost, see {@link AudioIOParams | `params.failover`} */
+export type FailoverParams = {
+  /** the devices to switch to, by id or name, in order of preference. The default device is used when none of them is available */
+  preferredDevices?: (number | string)[]
+
+  /** switch to the default device whenever it changes, not only when the device is lost (default=false) */
+  followDefault?: boolean
+
+  /** the watcher to detect the changes with (default=a new watcher polling every second) */
+  watcher?: DeviceWatcher
+}
 
 export type AudioIOParams = {
   /** the audio API to utilize (An available API will be used if omitted) */
@@ -27,4 +51,61 @@ export type AudioIOParams = {
 
   /** stream high water mark */
   highWaterMark?: number
+
+  /**
+   * deliver an {@link AudioFrame} record for each chunk instead of the bare audio data, applies to input streams
+   * (default=false)
+   */
+  objectMode?: boolean
+
+  /** the interval of the `level` events in milliseconds, the levels are not measured if omitted */
+  meterInterval?: number
+
+  /** what to play when less than a chunk is queued, applies to output streams (default='silence-fill'), see {@link UnderrunPolicy} */
+  underrunPolicy?: UnderrunPolicy
+
+  /** the backend that provides the audio I/O (default=`RtAudio`), see {@link VirtualAudioHost} for testing without hardware */
+  backend?: AudioBackendFactory
+
+  /**
+   * reopen the stream on another device when the device is removed or fails, instead of emitting an error, applies to
+   * input and output streams (default=false), see {@link FailoverParams}
+   */
+  failover?: boolean | FailoverParams
+
+  /**
+   * check the channels and the sample rate against the device in the constructor, and throw if the device doesn't
+   * support them instead of emitting an error later. A non-native format is accepted, since it is converted
+   * (default=false), see {@link negotiateParams}
+   */
+  strict?: boolean
+}
+
+/** The parameters that can be changed on an open stream with `reconfigure` */
+export type ReconfigurableParams = Partial<Pick<AudioIOParams, 'api' | 'deviceId' | 'bufferFrames'>>
+
+export type AudioDuplexParams = Omit<
+  AudioIOParams,
+  'deviceId' | 'channels' | 'firstChannel' | 'failover' | 'underrunPolicy' | 'meterInterval' | 'objectMode'
+> & {
+  /** the id of the input device */
+  inputDeviceId: number
+
+  /** the number of input channels to use. Device should support the provided value */
+  inputChannels: number
+
+  /** the index of the input channel that will be considered the first (default=0) */
+  inputFirstChannel?: number
+
+  /** the id of the output device */
+  outputDeviceId: number
+
+  /** the number of output channels to use. Device should support the provided value */
+  outputChannels: number
+
+  /** the index of the output channel that will be considered the first (default=0) */
+  outputFirstChannel?: number
 }
+
+/** The subset of {@link AudioIOParams} that describes the layout of the audio data */
+export type PcmParams = Pick<AudioIOParams, 'channels' | 'sampleRate' | 'format' | 'bufferFrames' | 'options'>
@@ -0,0 +1,367 @@
+import {
+  DeviceInfo,
+  RtAudioApi,
+  RtAudioCallback,
+  RtAudioErrorType,
+  RtAudioFormat,
+  RtAudioStreamStatus,
+  StreamOptions,
+  StreamParameters,
+} from '@hamitzor/rtaudio.js'
+import { AudioBackend, AudioBackendFactory } from './backend'
+import { rtAudioFormatToByteCount } from './common'
+
+const ALL_FORMATS = RtAudioFormat.RTAUDIO_SINT8 | RtAudioFormat.RTAUDIO_SINT16 | RtAudioFormat.RTAUDIO_SINT32 |
+  RtAudioFormat.RTAUDIO_FLOAT32 | RtAudioFormat.RTAUDIO_FLOAT64
+
+const defaultDevices = (): DeviceInfo[] => [{
+  id: 1,
+  name: 'Virtual Device',
+  outputChannels: 2,
+  inputChannels: 2,
+  duplexChannels: 2,
+  isDefaultOutput: 1,
+  isDefaultInput: 1,
+  sampleRates: [8000, 16000, 22050, 44100, 48000, 96000],
+  preferredSampleRate: 48000,
+  nativeFormats: ALL_FORMATS
+}]
+
+export type VirtualAudioHostOptions = {
+  /** the devices the host exposes (default=a single two channel duplex device with id 1) */
+  devices?: DeviceInfo[]
+
+  /** the id of the default input device (default=the first device with input channels) */
+  defaultInputDevice?: number
+
+  /** the id of the default output device (default=the first device with output channels) */
+  defaultOutputDevice?: number
+
+  /** the latency reported by the streams in frames (default=0) */
+  latency?: number
+}
+
+/**
+ * An in-memory audio host to exercise the library, and the code that uses it, without any
+ * audio hardware. Pass {@link VirtualAudioHost.backend | `host.backend`} through
+ * {@link AudioIOParams | `params.backend`} (or to {@link probeDevices | `probeDevices`}) and the streams
+ * will be served by the host instead of `RtAudio`.
+ *
+ * Nothing happens on its own: the clock only advances when {@link VirtualAudioHost.tick | `tick`} is called,
+ * which runs the realtime callback of every running stream once. This makes the tests deterministic.
+ *
+ * ```javascript
+ * const host = new VirtualAudioHost()
+ * const audioStream = new AudioInputStream({ deviceId: 1, channels: 2, sampleRate: 48000, bufferFrames: 480, backend: host.backend })
+ * const [virtual] = host.backends
+ *
+ * virtual.injectInput(someChunk)
+ * host.tick() // audioStream now delivers someChunk
+ * ```
+ */
+export class VirtualAudioHost {
+  /** the devices the host exposes, can be altered at any time */
+  devices: DeviceInfo[]
+  /** the id of the default input device, can be altered at any time */
+  defaultInputDevice: number
+  /** the id of the default output device, can be altered at any time */
+  defaultOutputDevice: number
+  /** the latency reported by the streams in frames */
+  latency: number
+
+  private _backends: VirtualAudioBackend[]
+
+  /**
+   * Create a virtual audio host
+   *
+   * @param options options for the host
+   */
+  constructor(options: VirtualAudioHostOptions = {}) {
+    this.devices = options.devices || defaultDevices()
+    this.defaultInputDevice = options.defaultInputDevice !== undefined
+      ? options.defaultInputDevice
+      : (this.devices.find(({ inputChannels }) => inputChannels > 0) || { id: 0 }).id
+    this.defaultOutputDevice = options.defaultOutputDevice !== undefined
+      ? options.defaultOutputDevice
+      : (this.devices.find(({ outputChannels }) => outputChannels > 0) || { id: 0 }).id
+    this.latency = options.latency || 0
+    this._backends = []
+  }
+
+  /** The backend factory to pass through {@link AudioIOParams | `params.backend`} */
+  get backend(): AudioBackendFactory {
+    return (api?: RtAudioApi) => {
+      const backend = new VirtualAudioBackend(this, api)
+      this._backends.push(backend)
+      return backend
+    }
+  }
+
+  /** The backend instances created so far, in creation order */
+  get backends(): VirtualAudioBackend[] { return this._backends.slice() }
+
+  /**
+   * Advance the clock by `count` buffer periods, running the realtime callback of every running stream
+   * once per period
+   *
+   * @param count the number of buffer periods (default=1)
+   */
+  tick(count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this._backends.forEach(backend => backend.tick())
+    }
+  }
+}
+
+/**
+ * A single virtual backend instance, created by {@link VirtualAudioHost}. It lets the tests inject input
+ * buffers, inspect the output buffers and simulate the conditions a real device might run into.
+ */
+export class VirtualAudioBackend implements AudioBackend {
+  /** the API the backend was created for */
+  readonly api?: RtAudioApi
+  /** the buffers written by the stream to the output device, one per buffer period */
+  readonly output: Uint8Array[]
+  /** the rate the virtual device actually runs at, defaults to the requested sample rate */
+  trueSampleRate?: number
+
+  private _host: VirtualAudioHost
+  private _input: Uint8Array[]
+  private _status: number
+  private _showWarnings: boolean
+  private _errorCallback: (type: RtAudioErrorType, message: string) => void
+  private _isOpen: boolean
+  private _isRunning: boolean
+  private _outputParameters: StreamParameters | null
+  private _inputParameters: StreamParameters | null
+  private _format: RtAudioFormat
+  private _sampleRate: number
+  private _bufferFrames: number
+  private _options: StreamOptions | null
+  private _callback: RtAudioCallback | null
+  private _outputBuffer: Uint8Array
+  private _frames: number
+
+  /** @private */
+  constructor(host: VirtualAudioHost, api?: RtAudioApi) {
+    this.api = api
+    this.output = []
+    this._host = host
+    this._input = []
+    this._status = 0
+    this._showWarnings = false
+    this._errorCallback = () => { }
+    this._isOpen = false
+    this._isRunning = false
+    this._outputParameters = null
+    this._inputParameters = null
+    this._format = RtAudioFormat.RTAUDIO_SINT16
+    this._sampleRate = 0
+    this._bufferFrames = 0
+    this._options = null
+    this._callback = null
+    this._outputBuffer = new Uint8Array(0)
+    this._frames = 0
+  }
+
+  /** The input parameters the stream was opened with */
+  get inputParameters(): StreamParameters | null { return this._inputParameters }
+
+  /** The output parameters the stream was opened with */
+  get outputParameters(): StreamParameters | null { return this._outputParameters }
+
+  /** The format the stream was opened with */
+  get format(): RtAudioFormat { return this._format }
+
+  /** The number of frames per buffer the stream was opened with */
+  get bufferFrames(): number { return this._bufferFrames }
+
+  /** The options the stream was opened with */
+  get options(): StreamOptions | null { return this._options }
+
+  /**
+   * Queue buffers to be delivered to the stream as captured input, one per buffer period. A buffer
+   * is truncated or padded with zeros to the buffer size of the stream. Silence is delivered when
+   * the queue is empty.
+   *
+   * @param chunks the buffers to queue
+   */
+  injectInput(...chunks: Uint8Array[]): void {
+    chunks.forEach(chunk => this._input.push(chunk))
+  }
+
+  /**
+   * Report the given status (e.g. {@link RtAudioStreamStatus | `RtAudioStreamStatus.RTAUDIO_INPUT_OVERFLOW`})
+   * to the realtime callback on the next buffer period
+   *
+   * @param status the status flags
+   */
+  simulateStatus(status: RtAudioStreamStatus): void {
+    this._status |= status
+  }
+
+  /**
+   * Simulate the device dropping captured audio: the stream time advances by `lostFrames` frames, and
+   * the input overflow status is reported on the next buffer period
+   *
+   * @param lostFrames the number of frames dropped
+   */
+  simulateOverflow(lostFrames: number): void {
+    this._frames += lostFrames
+    this._status |= RtAudioStreamStatus.RTAUDIO_INPUT_OVERFLOW
+  }
+
+  /**
+   * Report an error through the error callback, as the driver would do. Warnings are only reported
+   * if they are enabled with `showWarnings`.
+   *
+   * @param type the type of the error
+   * @param message the error message
+   */
+  simulateError(type: RtAudioErrorType, message: string): void {
+    this._reportError(type, message)
+  }
+
+  /** Run the realtime callback once, if the stream is running. The stream stops with an error if its device was removed */
+  tick(): void {
+    if (!this._isRunning || !this._callback) {
+      return
+    }
+
+    const removed = [this._outputParameters, this._inputParameters]
+      .find(parameters => parameters && !this._host.devices.find(({ id }) => id === parameters.deviceId))
+
+    if (removed) {
+      this._isRunning = false
+      this._reportError(RtAudioErrorType.DRIVER_ERROR, `device ${removed.deviceId} is disconnected`)
+      return
+    }
+
+    const byteCount = rtAudioFormatToByteCount(this._format)
+    const input = this._inputParameters
+      ? new Uint8Array(this._bufferFrames * this._inputParameters.nChannels * byteCount)
+      : null
+
+    if (input) {
+      const injected = this._input.shift()
+      if (injected) {
+        input.set(injected.subarray(0, input.byteLength), 0)
+      }
+    }
+
+    const status = this._status
+    this._status = 0
+
+    const streamTime = this._frames / (this.trueSampleRate || this._sampleRate)
+    const result = this._callback(this._outputBuffer, input as Uint8Array, this._bufferFrames, streamTime, status)
+    this._frames += this._bufferFrames
+
+    if (this._outputParameters) {
+      this.output.push(this._outputBuffer.slice())
+    }
+
+    if (result) {
+      this._isRunning = false
+    }
+  }
+
+  getDevices(): DeviceInfo[] { return this._host.devices.slice() }
+
+  getDefaultInputDevice(): number { return this._host.defaultInputDevice }
+
+  getDefaultOutputDevice(): number { return this._host.defaultOutputDevice }
+
+  openStream(
+    outputParameters: StreamParameters | null,
+    inputParameters: StreamParameters | null,
+    format: RtAudioFormat,
+    sampleRate: number,
+    bufferFrames: number,
+    options: StreamOptions | null,
+    callback: RtAudioCallback | null
+  ): number {
+    if (this._isOpen) {
+      this._reportError(RtAudioErrorType.INVALID_USE, 'a stream is already open')
+      return 0
+    }
+
+    const invalid = [outputParameters, inputParameters].find(parameters => {
+      if (!parameters) {
+        return false
+      }
+      const device = this._host.devices.find(({ id }) => id === parameters.deviceId)
+      const channels = parameters === outputParameters ? device?.outputChannels : device?.inputChannels
+      return !device || (parameters.firstChannel || 0) + parameters.nChannels > (channels || 0)
+    })
+
+    if (invalid) {
+      this._reportError(RtAudioErrorType.INVALID_DEVICE, `device ${invalid.deviceId} cannot be opened with ${invalid.nChannels} channels`)
+      return 0
+    }
+
+    if (!rtAudioFormatToByteCount(format)) {
+      this._reportError(RtAudioErrorType.INVALID_PARAMETER, 'invalid format')
+      return 0
+    }
+
+    this._isOpen = true
+    this._outputParameters = outputParameters
+    this._inputParameters = inputParameters
+    this._format = format
+    this._sampleRate = sampleRate
+    this._bufferFrames = bufferFrames
+    this._options = options
+    this._callback = callback
+    this._outputBuffer = new Uint8Array(outputParameters ? bufferFrames * outputParameters.nChannels * rtAudioFormatToByteCount(format) : 0)
+    this._frames = 0
+
+    return bufferFrames
+  }
+
+  closeStream(): void {
+    this._isOpen = false
+    this._isRunning = false
+    this._callback = null
+  }
+
+  startStream(): void {
+    if (!this._isOpen) {
+      this._reportError(RtAudioErrorType.INVALID_USE, 'a stream is not open')
+      return
+    }
+    this._isRunning = true
+  }
+
+  stopStream(): void {
+    this._isRunning = false
+  }
+
+  abortStream(): void {
+    this._isRunning = false
+  }
+
+  isStreamOpen(): boolean { return this._isOpen }
+
+  isStreamRunning(): boolean { return this._isRunning }
+
+  getStreamTime(): number { return this._isOpen ? this._frames / (this.trueSampleRate || this._sampleRate) : 0 }
+
+  getStreamLatency(): number { return this._isOpen ? this._host.latency : 0 }
+
+  getStreamSampleRate(): number { return this._isOpen ? this.trueSampleRate || this._sampleRate : 0 }
+
+  showWarnings(enable: boolean): void {
+    this._showWarnings = enable
+  }
+
+  setErrorCallback(callback: (type: RtAudioErrorType, message: string) => void): void {
+    this._errorCallback = callback
+  }
+
+  private _reportError(type: RtAudioErrorType, message: string) {
+    if (type <= RtAudioErrorType.DEBUG_WARNING && !this._showWarnings) {
+      return
+    }
+    this._errorCallback(type, message)
+  }
+}
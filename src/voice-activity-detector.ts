@@ -0,0 +1,452 @@
+import { Readable, Transform, TransformCallback } from 'stream'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved, rtAudioFormatToByteCount } from './common'
+import { decodeChunk } from './samples'
+import { createWindow, powerSpectrum } from './fft'
+import { PcmParams } from './types'
+
+/** The method used to classify the audio, see {@link VoiceActivityDetector} */
+export type VoiceActivityDetectionMode = 'energy' | 'spectral'
+
+export type VoiceActivityDetectorOptions = Pick<PcmParams, 'channels' | 'sampleRate' | 'format' | 'options'> & {
+  /** the number of frames in a block, only required when `RTAUDIO_NONINTERLEAVED` is set in `options.flags` */
+  bufferFrames?: number
+
+  /** the method used to classify the audio (default='energy') */
+  mode?: VoiceActivityDetectionMode
+
+  /** the level in dBFS the audio should exceed to be considered speech (default=-45) */
+  threshold?: number
+
+  /** the duration of the analysis windows in milliseconds, ignored for non-interleaved audio whose blocks are analyzed (default=20) */
+  windowDuration?: number
+
+  /** how long the speech goes on after the last voiced window, in milliseconds (default=300) */
+  hangover?: number
+
+  /** how much audio before the speech start is included in the voiced segments, in milliseconds (default=200) */
+  preRoll?: number
+
+  /** the minimum ratio of the energy in the 300-3400 Hz band to the total energy, in spectral mode (default=0.5) */
+  speechBandRatio?: number
+
+  /** the maximum spectral flatness (0 for a pure tone, 1 for white noise), in spectral mode (default=0.35) */
+  maxFlatness?: number
+
+  /** emit only the voiced segments, including their pre-roll, instead of passing all the audio through (default=false) */
+  voicedOnly?: boolean
+
+  /** the stream the audio comes from, e.g. an {@link AudioInputStream | `AudioInputStream`}, whose `time` is used for the timestamps */
+  clock?: { readonly time: number }
+}
+
+export type SpeechStartEvent = {
+  /** the stream time the speech started at, in seconds */
+  time: number
+
+  /** the index of the frame the speech started at */
+  frame: number
+}
+
+export type SpeechEndEvent = SpeechStartEvent & {
+  /** the duration of the speech, including the hangover, in seconds */
+  duration: number
+}
+
+/**
+ * Class that detects voice activity in an audio stream, e.g. to know when someone starts and stops talking
+ * to an {@link AudioInputStream | `AudioInputStream`}:
+ *
+ * ```javascript
+ * const vad = new VoiceActivityDetector({ ...params, clock: audioStream })
+ *
+ * vad.on('speechstart', ({ time }) => console.log('started talking at', time))
+ * vad.on('speechend', ({ time, duration }) => console.log('stopped talking at', time))
+ *
+ * pipeline(audioStream, vad, recognizer)
+ * ```
+ *
+ * The audio is analyzed in short windows, all channels mixed together. In `energy` mode, a window is voiced
+ * if its level exceeds the threshold. In `spectral` mode, it also has to have most of its energy in the speech
+ * band, and a spectrum that is not flat like noise.
+ *
+ * A speech segment starts with the first voiced window, and ends when no voiced window is seen during
+ * the hangover. By default all the audio is passed through unchanged. With
+ * {@link VoiceActivityDetectorOptions | `options.voicedOnly`} only the speech segments are emitted, each one
+ * preceded by the pre-roll captured before the speech started.
+ *
+ * The timestamps are derived from `time` of {@link VoiceActivityDetectorOptions | `options.clock`} if given,
+ * otherwise from the number of frames processed.
+ */
+export class VoiceActivityDetector extends Transform {
+  private _channels: number
+  private _sampleRate: number
+  private _format: RtAudioFormat
+  private _frameSize: number
+  private _nonInterleaved: boolean
+  private _windowFrames: number
+  private _mode: VoiceActivityDetectionMode
+  private _threshold: number
+  private _hangoverFrames: number
+  private _preRollFrames: number
+  private _speechBandRatio: number
+  private _maxFlatness: number
+  private _voicedOnly: boolean
+  private _clock: { readonly time: number } | null
+  private _pending: Uint8Array
+  private _preRoll: Uint8Array[]
+  private _receivedFrames: number
+  private _analyzedFrames: number
+  private _speechStart: number
+  private _silentFrames: number
+  private _fftSize: number
+  private _fftWindow: Float64Array
+
+  /**
+   * Create a voice activity detector
+   *
+   * @param options options for the detection
+   */
+  constructor(options: VoiceActivityDetectorOptions) {
+    super()
+
+    this._channels = options.channels
+    this._sampleRate = options.sampleRate
+    this._format = options.format || RtAudioFormat.RTAUDIO_SINT16
+    this._frameSize = options.channels * rtAudioFormatToByteCount(this._format)
+    this._nonInterleaved = isNonInterleaved(options.options)
+    this._windowFrames = this._nonInterleaved
+      ? options.bufferFrames || 0
+      : Math.max(1, Math.round((options.windowDuration || 20) / 1000 * options.sampleRate))
+    this._mode = options.mode || 'energy'
+    this._threshold = options.threshold !== undefined ? options.threshold : -45
+    this._hangoverFrames = Math.round((options.hangover !== undefined ? options.hangover : 300) / 1000 * options.sampleRate)
+    this._preRollFrames = Math.round((options.preRoll !== undefined ? options.preRoll : 200) / 1000 * options.sampleRate)
+    this._speechBandRatio = options.speechBandRatio !== undefined ? options.speechBandRatio : 0.5
+    this._maxFlatness = options.maxFlatness !== undefined ? options.maxFlatness : 0.35
+    this._voicedOnly = options.voicedOnly || false
+    this._clock = options.clock || null
+    this._pending = new Uint8Array(0)
+    this._preRoll = []
+    this._receivedFrames = 0
+    this._analyzedFrames = 0
+    this._speechStart = -1
+    this._silentFrames = 0
+
+    if (!this._windowFrames) {
+      throw new TypeError('bufferFrames is required for non-interleaved audio')
+    }
+
+    this._fftSize = 1
+    while (this._fftSize < this._windowFrames) {
+      this._fftSize <<= 1
+    }
+    this._fftWindow = createWindow('hann', this._windowFrames)
+  }
+
+  /** Whether a speech segment is in progress */
+  get isSpeaking(): boolean { return this._speechStart >= 0 }
+
+  /** @private */
+  _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (!this._voicedOnly) {
+      this.push(chunk)
+    }
+
+    const data = new Uint8Array(this._pending.byteLength + chunk.byteLength)
+    data.set(this._pending, 0)
+    data.set(chunk, this._pending.byteLength)
+
+    const windowSize = this._windowFrames * this._frameSize
+    const length = data.byteLength - data.byteLength % windowSize
+    this._pending = data.slice(length)
+    this._receivedFrames += Math.floor(chunk.byteLength / this._frameSize)
+
+    for (let offset = 0; offset < length; offset += windowSize) {
+      this._analyze(data.subarray(offset, offset + windowSize))
+    }
+
+    callback()
+  }
+
+  /** @private */
+  _flush(callback: TransformCallback): void {
+    if (this.isSpeaking) {
+      if (this._voicedOnly && this._pending.byteLength > 0) {
+        this.push(this._pending)
+      }
+      this._analyzedFrames += Math.floor(this._pending.byteLength / this._frameSize)
+      this._endSpeech()
+    }
+
+    callback()
+  }
+
+  private _analyze(window: Uint8Array) {
+    const voiced = this._isVoiced(window)
+    const frame = this._analyzedFrames
+
+    this._analyzedFrames += this._windowFrames
+
+    if (!this.isSpeaking) {
+      if (!voiced) {
+        this._addPreRoll(window)
+        return
+      }
+
+      this._speechStart = frame
+      this._silentFrames = 0
+      this.emit('speechstart', { time: this._timeOf(frame), frame })
+
+      if (this._voicedOnly) {
+        this._preRoll.forEach(preRoll => this.push(preRoll))
+        this.push(window.slice())
+      }
+      this._preRoll = []
+      return
+    }
+
+    if (this._voicedOnly) {
+      this.push(window.slice())
+    }
+
+    this._silentFrames = voiced ? 0 : this._silentFrames + this._windowFrames
+
+    if (this._silentFrames >= this._hangoverFrames) {
+      this._endSpeech()
+    }
+  }
+
+  private _endSpeech() {
+    const frame = this._analyzedFrames
+
+    this.emit('speechend', {
+      time: this._timeOf(frame),
+      frame,
+      duration: (frame - this._speechStart) / this._sampleRate
+    })
+    this._speechStart = -1
+    this._silentFrames = 0
+  }
+
+  private _addPreRoll(window: Uint8Array) {
+    if (this._preRollFrames === 0) {
+      return
+    }
+
+    this._preRoll.push(window.slice())
+
+    while ((this._preRoll.length - 1) * this._windowFrames >= this._preRollFrames) {
+      this._preRoll.shift()
+    }
+  }
+
+  private _timeOf(frame: number) {
+    if (this._clock) {
+      return this._clock.time - (this._receivedFrames - frame) / this._sampleRate
+    }
+    return frame / this._sampleRate
+  }
+
+  private _isVoiced(window: Uint8Array) {
+    const planes = decodeChunk(window, this._format, this._channels, this._nonInterleaved)
+    const mono = new Float64Array(this._fftSize)
+    let sumOfSquares = 0
+
+    // the window covers the analyzed frames only, the rest of the transform is left as zero padding
+    for (let frame = 0; frame < this._windowFrames; frame++) {
+      let sum = 0
+      for (let channel = 0; channel < this._channels; channel++) {
+        sum += planes[channel][frame]
+      }
+      const value = sum / this._channels
+      mono[frame] = value * this._fftWindow[frame]
+      sumOfSquares += value * value
+    }
+
+    const level = 10 * Math.log(sumOfSquares / this._windowFrames) / Math.LN10
+
+    if (!(level > this._threshold)) {
+      return false
+    }
+
+    if (this._mode === 'energy') {
+      return true
+    }
+
+    const power = powerSpectrum(mono)
+    const binWidth = this._sampleRate / this._fftSize
+    let total = 0
+    let speech = 0
+    let logSum = 0
+
+    for (let bin = 1; bin < power.length; bin++) {
+      const frequency = bin * binWidth
+      total += power[bin]
+      if (frequency >= 300 && frequency <= 3400) {
+        speech += power[bin]
+      }
+      logSum += Math.log(power[bin] + 1e-20)
+    }
+
+    const bins = power.length - 1
+    const flatness = Math.exp(logSum / bins) / (total / bins + 1e-20)
+
+    return speech / total >= this._speechBandRatio && flatness <= this._maxFlatness
+  }
+
+  /** @ignore */
+  on(event: 'close', listener: () => void): this
+  /** @ignore */
+  on(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  on(event: 'drain', listener: () => void): this
+  /** @ignore */
+  on(event: 'end', listener: () => void): this
+  /** @ignore */
+  on(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  on(event: 'finish', listener: () => void): this
+  /** @ignore */
+  on(event: 'pause', listener: () => void): this
+  /** @ignore */
+  on(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'readable', listener: () => void): this
+  /** @ignore */
+  on(event: 'resume', listener: () => void): this
+  /** @ignore */
+  on(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'speechstart', listener: (info: SpeechStartEvent) => void): this
+  /** @ignore */
+  on(event: 'speechend', listener: (info: SpeechEndEvent) => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  addListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  addListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'speechstart', listener: (info: SpeechStartEvent) => void): this
+  /** @ignore */
+  addListener(event: 'speechend', listener: (info: SpeechEndEvent) => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'close', listener: () => void): this
+  /** @ignore */
+  once(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  once(event: 'drain', listener: () => void): this
+  /** @ignore */
+  once(event: 'end', listener: () => void): this
+  /** @ignore */
+  once(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  once(event: 'finish', listener: () => void): this
+  /** @ignore */
+  once(event: 'pause', listener: () => void): this
+  /** @ignore */
+  once(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'readable', listener: () => void): this
+  /** @ignore */
+  once(event: 'resume', listener: () => void): this
+  /** @ignore */
+  once(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'speechstart', listener: (info: SpeechStartEvent) => void): this
+  /** @ignore */
+  once(event: 'speechend', listener: (info: SpeechEndEvent) => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  removeListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  removeListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'speechstart', listener: (info: SpeechStartEvent) => void): this
+  /** @ignore */
+  removeListener(event: 'speechend', listener: (info: SpeechEndEvent) => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'close'): boolean
+  /** @ignore */
+  emit(event: 'data', chunk: any): boolean
+  /** @ignore */
+  emit(event: 'drain'): boolean
+  /** @ignore */
+  emit(event: 'end'): boolean
+  /** @ignore */
+  emit(event: 'error', err: Error): boolean
+  /** @ignore */
+  emit(event: 'finish'): boolean
+  /** @ignore */
+  emit(event: 'pause'): boolean
+  /** @ignore */
+  emit(event: 'pipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'readable'): boolean
+  /** @ignore */
+  emit(event: 'resume'): boolean
+  /** @ignore */
+  emit(event: 'unpipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'speechstart', info: SpeechStartEvent): boolean
+  /** @ignore */
+  emit(event: 'speechend', info: SpeechEndEvent): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+}
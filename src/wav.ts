@@ -0,0 +1,807 @@
+import { Readable, Transform, TransformCallback, Writable } from 'stream'
+import { close, open, write } from 'fs'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { deinterleave, interleave, isHostLittleEndian, isNonInterleaved, rtAudioFormatToByteCount, swapBytes } from './common'
+import { AudioIOParams, PcmParams } from './types'
+import { AudioCodec, CodecProcessor, createDecoder, createEncoder, getDefaultImaAdpcmBlockAlign, getImaAdpcmSamplesPerBlock } from './codecs'
+
+const WAVE_FORMAT_PCM = 0x0001
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003
+const WAVE_FORMAT_ALAW = 0x0006
+const WAVE_FORMAT_MULAW = 0x0007
+const WAVE_FORMAT_IMA_ADPCM = 0x0011
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE
+
+/** The GUID suffix shared by the KSDATAFORMAT_SUBTYPE_* sub formats */
+const SUBFORMAT_GUID_SUFFIX = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71]
+
+const MAX_CHUNK_SIZE = 0xFFFFFFFF
+
+/** Parameters parsed from a WAV file, which can be spread into {@link AudioIOParams} */
+export type WavParams = Required<Pick<AudioIOParams, 'channels' | 'sampleRate' | 'format'>>
+
+/** The `fmt ` chunk of a WAV file */
+type WavFmt = {
+  formatTag: number
+  channels: number
+  sampleRate: number
+  blockAlign: number
+  bitsPerSample: number
+  validBitsPerSample: number
+  samplesPerBlock: number
+}
+
+const isFloatFormat = (format: RtAudioFormat) =>
+  format === RtAudioFormat.RTAUDIO_FLOAT32 || format === RtAudioFormat.RTAUDIO_FLOAT64
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
+
+const readString = (data: Uint8Array, offset: number) =>
+  String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3])
+
+const isPcmFormatTag = (formatTag: number) => formatTag === WAVE_FORMAT_PCM || formatTag === WAVE_FORMAT_IEEE_FLOAT
+
+/** Get the codec of a format tag, `null` if the samples are not compressed */
+const getCodec = (formatTag: number): AudioCodec | null => {
+  switch (formatTag) {
+    case WAVE_FORMAT_ALAW: return 'alaw'
+    case WAVE_FORMAT_MULAW: return 'mulaw'
+    case WAVE_FORMAT_IMA_ADPCM: return 'ima-adpcm'
+  }
+  return null
+}
+
+const createCodecFmt = (codec: AudioCodec, channels: number, sampleRate: number, blockAlign: number): WavFmt => {
+  if (codec === 'ima-adpcm') {
+    return {
+      formatTag: WAVE_FORMAT_IMA_ADPCM,
+      channels,
+      sampleRate,
+      blockAlign,
+      bitsPerSample: 4,
+      validBitsPerSample: 4,
+      samplesPerBlock: getImaAdpcmSamplesPerBlock(blockAlign, channels)
+    }
+  }
+
+  return {
+    formatTag: codec === 'alaw' ? WAVE_FORMAT_ALAW : WAVE_FORMAT_MULAW,
+    channels,
+    sampleRate,
+    blockAlign: channels,
+    bitsPerSample: 8,
+    validBitsPerSample: 8,
+    samplesPerBlock: 1
+  }
+}
+
+/**
+ * Create the header of a WAV file that holds audio data described by `params`. The format tag is
+ * `WAVE_FORMAT_PCM` for the integer formats and `WAVE_FORMAT_IEEE_FLOAT` for the float formats.
+ * `WAVE_FORMAT_EXTENSIBLE` is used when there are more than two channels.
+ *
+ * The header can be used to write WAV data to a destination that can't be rewound, by passing
+ * the total number of bytes in advance. See {@link WavWriter} for writing to files.
+ *
+ * @param params the parameters the audio data was captured with
+ * @param dataLength the number of bytes of audio data that will follow the header
+ */
+export const createWavHeader = (params: Pick<AudioIOParams, 'channels' | 'sampleRate' | 'format'>, dataLength: number) => {
+  const format = params.format || RtAudioFormat.RTAUDIO_SINT16
+  const byteCount = rtAudioFormatToByteCount(format)
+
+  return buildHeader({
+    formatTag: isFloatFormat(format) ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM,
+    channels: params.channels,
+    sampleRate: params.sampleRate,
+    blockAlign: params.channels * byteCount,
+    bitsPerSample: byteCount * 8,
+    validBitsPerSample: byteCount * 8,
+    samplesPerBlock: 1
+  }, dataLength)
+}
+
+/**
+ * Build the header for the given `fmt` chunk. `frames` is the number of frames in the `fact` chunk, which is derived
+ * from `dataLength` if omitted.
+ */
+const buildHeader = (fmt: WavFmt, dataLength: number, frames?: number) => {
+  const extensible = fmt.channels > 2 && isPcmFormatTag(fmt.formatTag)
+  const hasFact = extensible || fmt.formatTag !== WAVE_FORMAT_PCM
+  const fmtSize = extensible ? 40 : fmt.formatTag === WAVE_FORMAT_PCM ? 16 : fmt.formatTag === WAVE_FORMAT_IMA_ADPCM ? 20 : 18
+  const headerLength = 12 + 8 + fmtSize + (hasFact ? 12 : 0) + 8
+  const header = new Uint8Array(headerLength)
+  const view = new DataView(header.buffer)
+  const riffSize = headerLength - 8 + dataLength + (dataLength % 2)
+  let offset = 0
+
+  writeString(view, offset, 'RIFF')
+  view.setUint32(offset + 4, Math.min(riffSize, MAX_CHUNK_SIZE), true)
+  writeString(view, offset + 8, 'WAVE')
+  offset += 12
+
+  writeString(view, offset, 'fmt ')
+  view.setUint32(offset + 4, fmtSize, true)
+  view.setUint16(offset + 8, extensible ? WAVE_FORMAT_EXTENSIBLE : fmt.formatTag, true)
+  view.setUint16(offset + 10, fmt.channels, true)
+  view.setUint32(offset + 12, fmt.sampleRate, true)
+  view.setUint32(offset + 16, Math.round(fmt.sampleRate * fmt.blockAlign / fmt.samplesPerBlock), true)
+  view.setUint16(offset + 20, fmt.blockAlign, true)
+  view.setUint16(offset + 22, fmt.bitsPerSample, true)
+  if (extensible) {
+    view.setUint16(offset + 24, 22, true)
+    view.setUint16(offset + 26, fmt.validBitsPerSample, true)
+    view.setUint32(offset + 28, fmt.channels < 32 ? (1 << fmt.channels) - 1 : 0, true)
+    view.setUint16(offset + 32, fmt.formatTag, true)
+    header.set(SUBFORMAT_GUID_SUFFIX, offset + 34)
+  } else if (fmtSize === 20) {
+    view.setUint16(offset + 24, 2, true)
+    view.setUint16(offset + 26, fmt.samplesPerBlock, true)
+  } else if (fmtSize === 18) {
+    view.setUint16(offset + 24, 0, true)
+  }
+  offset += 8 + fmtSize
+
+  if (hasFact) {
+    writeString(view, offset, 'fact')
+    view.setUint32(offset + 4, 4, true)
+    const factFrames = frames !== undefined ? frames : Math.floor(dataLength / fmt.blockAlign) * fmt.samplesPerBlock
+    view.setUint32(offset + 8, Math.min(factFrames, MAX_CHUNK_SIZE), true)
+    offset += 12
+  }
+
+  writeString(view, offset, 'data')
+  view.setUint32(offset + 4, Math.min(dataLength, MAX_CHUNK_SIZE), true)
+
+  return header
+}
+
+/**
+ * Convert samples between the layout used by `RtAudio` (signed, host byte order) and the one
+ * used by WAV files (8-bit samples unsigned, little-endian). The conversion is symmetric.
+ */
+const convertSamples = (data: Uint8Array, format: RtAudioFormat) => {
+  if (format === RtAudioFormat.RTAUDIO_SINT8) {
+    for (let i = 0; i < data.byteLength; i++) {
+      data[i] ^= 0x80
+    }
+  } else if (!isHostLittleEndian) {
+    swapBytes(data, rtAudioFormatToByteCount(format))
+  }
+
+  return data
+}
+
+/** Options for {@link WavWriter} */
+export type WavWriterOptions = {
+  /** compress the samples with a codec, which requires {@link RtAudioFormat | `RtAudioFormat.RTAUDIO_SINT16`} data */
+  codec?: AudioCodec
+
+  /** the size of an IMA ADPCM block in bytes, applies to `ima-adpcm` (default=256 per channel) */
+  blockAlign?: number
+}
+
+/**
+ * Class that writes audio data into a WAV file. It can be used as the destination of an
+ * {@link AudioInputStream | `AudioInputStream`}, which is enough to record a playable file:
+ *
+ * ```javascript
+ * const params = { deviceId: 1, channels: 2, sampleRate: 48000, bufferFrames: 480, format: RtAudioFormat.RTAUDIO_FLOAT32 }
+ *
+ * pipeline(new AudioInputStream(params), new WavWriter('recording.wav', params))
+ * ```
+ *
+ * The header is built from `channels`, `sampleRate` and `format` of the given params. Since
+ * the length of the recording is not known in advance, the size fields of the header are
+ * patched when the stream finishes.
+ *
+ * WAV files are always interleaved. If {@link RtAudioStreamFlags.RTAUDIO_NONINTERLEAVED | `RtAudioStreamFlags.RTAUDIO_NONINTERLEAVED`}
+ * is set in `params.options.flags`, the data is expected to come in blocks of `params.bufferFrames` frames,
+ * as {@link AudioInputStream | `AudioInputStream`} delivers it, and each block is interleaved before being written.
+ *
+ * If {@link WavWriterOptions | `options.codec`} is given, the samples are compressed with G.711 µ-law (format tag 7),
+ * G.711 A-law (format tag 6) or IMA ADPCM (format tag 0x11), see {@link AudioCodec}.
+ */
+export class WavWriter extends Writable {
+  private _path: string
+  private _format: RtAudioFormat
+  private _params: PcmParams
+  private _blockSize: number
+  private _nonInterleaved: boolean
+  private _fd: number | null
+  private _headerLength: number
+  private _dataLength: number
+  private _frames: number
+  private _pending: Uint8Array
+  private _codecFmt: WavFmt | null
+  private _encoder: CodecProcessor | null
+
+  /**
+   * Create a WAV writer
+   *
+   * @param path the path of the file to write, it is truncated if it exists
+   * @param params the parameters the audio data was captured with
+   * @param options options for the writer
+   */
+  constructor(path: string, params: PcmParams, options: WavWriterOptions = {}) {
+    super({ emitClose: true })
+
+    if (options.codec && (params.format || RtAudioFormat.RTAUDIO_SINT16) !== RtAudioFormat.RTAUDIO_SINT16) {
+      throw new TypeError(`${options.codec} encoding requires RTAUDIO_SINT16 data`)
+    }
+
+    this._path = path
+    this._format = params.format || RtAudioFormat.RTAUDIO_SINT16
+    this._params = params
+    this._nonInterleaved = isNonInterleaved(params.options)
+    this._blockSize = this._nonInterleaved
+      ? params.bufferFrames * params.channels * rtAudioFormatToByteCount(this._format)
+      : params.channels * rtAudioFormatToByteCount(this._format)
+    this._fd = null
+    this._headerLength = 0
+    this._dataLength = 0
+    this._frames = 0
+    this._pending = new Uint8Array(0)
+    this._codecFmt = options.codec
+      ? createCodecFmt(options.codec, params.channels, params.sampleRate, options.blockAlign || getDefaultImaAdpcmBlockAlign(params.channels))
+      : null
+    this._encoder = options.codec && this._codecFmt
+      ? createEncoder({ codec: options.codec, channels: params.channels, blockAlign: this._codecFmt.blockAlign })
+      : null
+  }
+
+  /** The path of the file */
+  get path(): string { return this._path }
+
+  /** The number of bytes of audio data written so far */
+  get dataLength(): number { return this._dataLength }
+
+  /** @private */
+  _construct(callback: (error?: Error | null) => void): void {
+    open(this._path, 'w', (err, fd) => {
+      if (err) {
+        callback(err)
+        return
+      }
+
+      this._fd = fd
+      const header = this._createHeader()
+      this._headerLength = header.byteLength
+      write(fd, header, 0, header.byteLength, 0, err => callback(err))
+    })
+  }
+
+  /** @private */
+  _write(chunk: Uint8Array, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    const data = new Uint8Array(this._pending.byteLength + chunk.byteLength)
+    data.set(this._pending, 0)
+    data.set(chunk, this._pending.byteLength)
+
+    const length = data.byteLength - data.byteLength % this._blockSize
+    this._pending = data.slice(length)
+    this._writeData(data.subarray(0, length), callback)
+  }
+
+  /** @private */
+  _final(callback: (error?: Error | null) => void): void {
+    const byteCount = rtAudioFormatToByteCount(this._format)
+    const frameSize = this._params.channels * byteCount
+    const rest = this._pending.subarray(0, this._pending.byteLength - this._pending.byteLength % frameSize)
+
+    this._pending = new Uint8Array(0)
+    this._writeData(rest, err => {
+      if (err) {
+        callback(err)
+        return
+      }
+
+      this._writeEncoded(this._encoder ? this._encoder.flush() : new Uint8Array(0), err => {
+        if (err || this._fd === null) {
+          callback(err)
+          return
+        }
+
+        const fd = this._fd
+        const padding = new Uint8Array(this._dataLength % 2)
+        write(fd, padding, 0, padding.byteLength, this._headerLength + this._dataLength, err => {
+          if (err) {
+            callback(err)
+            return
+          }
+
+          const header = this._createHeader()
+          write(fd, header, 0, header.byteLength, 0, err => callback(err))
+        })
+      })
+    })
+  }
+
+  /** @private */
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    if (this._fd === null) {
+      callback(error)
+      return
+    }
+
+    close(this._fd, err => callback(error || err))
+    this._fd = null
+  }
+
+  private _createHeader() {
+    return this._codecFmt ? buildHeader(this._codecFmt, this._dataLength, this._frames) : createWavHeader(this._params, this._dataLength)
+  }
+
+  private _writeData(data: Uint8Array, callback: (error?: Error | null) => void) {
+    if (data.byteLength === 0 || this._fd === null) {
+      callback()
+      return
+    }
+
+    const encoded = data.slice()
+
+    if (this._nonInterleaved) {
+      for (let offset = 0; offset < data.byteLength; offset += this._blockSize) {
+        const block = data.subarray(offset, Math.min(offset + this._blockSize, data.byteLength))
+        encoded.set(interleave(block, this._params.channels, rtAudioFormatToByteCount(this._format)), offset)
+      }
+    }
+
+    this._frames += encoded.byteLength / (this._params.channels * rtAudioFormatToByteCount(this._format))
+    this._writeEncoded(this._encoder ? this._encoder.process(encoded) : convertSamples(encoded, this._format), callback)
+  }
+
+  private _writeEncoded(encoded: Uint8Array, callback: (error?: Error | null) => void) {
+    if (encoded.byteLength === 0 || this._fd === null) {
+      callback()
+      return
+    }
+
+    write(this._fd, encoded, 0, encoded.byteLength, this._headerLength + this._dataLength, err => {
+      if (!err) {
+        this._dataLength += encoded.byteLength
+      }
+      callback(err)
+    })
+  }
+}
+
+/** Options for {@link WavReader} */
+export type WavReaderOptions = {
+  /** emit the data in non-interleaved blocks of `bufferFrames` frames, e.g. for a stream opened with `RTAUDIO_NONINTERLEAVED` */
+  nonInterleaved?: { bufferFrames: number }
+}
+
+/**
+ * Class that parses a WAV file and emits its audio data in the layout `RtAudio` works with:
+ * signed samples in host byte order. It understands `WAVE_FORMAT_PCM`, `WAVE_FORMAT_IEEE_FLOAT` and
+ * `WAVE_FORMAT_EXTENSIBLE` files, skips the chunks it doesn't know about (`LIST`, `JUNK`, etc.) and
+ * respects the padding of odd sized chunks. 24-bit files are widened to
+ * {@link RtAudioFormat | `RtAudioFormat.RTAUDIO_SINT32`}, and G.711 µ-law, G.711 A-law and IMA ADPCM files
+ * are decoded to {@link RtAudioFormat | `RtAudioFormat.RTAUDIO_SINT16`}, see {@link AudioCodec}.
+ *
+ * The {@link WavReader.params | `params`} are available once the `format` event is emitted, which happens
+ * before any data. They can be spread into {@link AudioIOParams} to open a matching
+ * {@link AudioOutputStream | `AudioOutputStream`}:
+ *
+ * ```javascript
+ * const reader = createReadStream('recording.wav').pipe(new WavReader())
+ *
+ * reader.once('format', params => {
+ *   pipeline(reader, new AudioOutputStream({ ...params, deviceId: 1, bufferFrames: 480 }))
+ * })
+ * ```
+ *
+ * If {@link WavReaderOptions | `options.nonInterleaved`} is given, the data is emitted in non-interleaved blocks
+ * of `bufferFrames` frames instead.
+ */
+export class WavReader extends Transform {
+  private _header: Uint8Array
+  private _fmt: WavFmt | null
+  private _params: WavParams | null
+  private _remaining: number
+  private _pending: Uint8Array
+  private _nonInterleavedFrames: number
+  private _decoder: CodecProcessor | null
+  private _factFrames: number | null
+
+  /**
+   * Create a WAV reader
+   *
+   * @param options options for the reader
+   */
+  constructor(options: WavReaderOptions = {}) {
+    super()
+
+    this._header = new Uint8Array(0)
+    this._fmt = null
+    this._params = null
+    this._remaining = -1
+    this._pending = new Uint8Array(0)
+    this._nonInterleavedFrames = options.nonInterleaved ? options.nonInterleaved.bufferFrames : 0
+    this._decoder = null
+    this._factFrames = null
+  }
+
+  /** The parameters of the audio data, or `null` if the header hasn't been parsed yet */
+  get params(): WavParams | null { return this._params }
+
+  /** The format tag of the file, or `null` if the header hasn't been parsed yet */
+  get formatTag(): number | null { return this._fmt && this._fmt.formatTag }
+
+  /** @private */
+  _transform(chunk: Uint8Array, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      if (this._remaining < 0) {
+        const data = new Uint8Array(this._header.byteLength + chunk.byteLength)
+        data.set(this._header, 0)
+        data.set(chunk, this._header.byteLength)
+        this._header = data
+
+        const dataOffset = this._parseHeader()
+        if (dataOffset < 0) {
+          callback()
+          return
+        }
+
+        chunk = this._header.subarray(dataOffset)
+        this._header = new Uint8Array(0)
+      }
+
+      this._pushData(chunk)
+      callback()
+    } catch (err) {
+      callback(err as Error)
+    }
+  }
+
+  /** @private */
+  _flush(callback: TransformCallback): void {
+    if (this._remaining < 0) {
+      callback(new Error('invalid WAV file: no data chunk found'))
+      return
+    }
+
+    if (this._decoder) {
+      this._pushSamples(this._trimPadding(this._decoder.flush()))
+    }
+
+    if (this._nonInterleavedFrames > 0 && this._pending.byteLength > 0 && this._params) {
+      const byteCount = rtAudioFormatToByteCount(this._params.format)
+      const frameSize = this._params.channels * byteCount
+      const rest = this._pending.subarray(0, this._pending.byteLength - this._pending.byteLength % frameSize)
+      if (rest.byteLength > 0) {
+        this.push(deinterleave(rest, this._params.channels, byteCount))
+      }
+    }
+
+    callback()
+  }
+
+  /** Walk the chunks of the header, returns the offset of the audio data or -1 if more data is needed */
+  private _parseHeader(): number {
+    const header = this._header
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength)
+
+    if (header.byteLength < 12) {
+      return -1
+    }
+
+    if (readString(header, 0) !== 'RIFF' || readString(header, 8) !== 'WAVE') {
+      throw new Error('invalid WAV file: missing RIFF/WAVE header')
+    }
+
+    let offset = 12
+
+    while (offset + 8 <= header.byteLength) {
+      const id = readString(header, offset)
+      const size = view.getUint32(offset + 4, true)
+
+      if (id === 'data') {
+        if (!this._fmt) {
+          throw new Error('invalid WAV file: data chunk comes before fmt chunk')
+        }
+
+        this._remaining = size === 0 || size === MAX_CHUNK_SIZE ? Infinity : size
+        this.emit('format', this._params as WavParams)
+        return offset + 8
+      }
+
+      if (offset + 8 + size > header.byteLength) {
+        return -1
+      }
+
+      if (id === 'fmt ') {
+        this._parseFmt(view, offset + 8, size)
+      } else if (id === 'fact' && size >= 4) {
+        this._factFrames = view.getUint32(offset + 8, true)
+      }
+
+      offset += 8 + size + (size % 2)
+    }
+
+    return -1
+  }
+
+  private _parseFmt(view: DataView, offset: number, size: number) {
+    if (size < 16) {
+      throw new Error('invalid WAV file: fmt chunk is too short')
+    }
+
+    const fmt: WavFmt = {
+      formatTag: view.getUint16(offset, true),
+      channels: view.getUint16(offset + 2, true),
+      sampleRate: view.getUint32(offset + 4, true),
+      blockAlign: view.getUint16(offset + 12, true),
+      bitsPerSample: view.getUint16(offset + 14, true),
+      validBitsPerSample: view.getUint16(offset + 14, true),
+      samplesPerBlock: 1
+    }
+
+    if (fmt.formatTag === WAVE_FORMAT_EXTENSIBLE) {
+      if (size < 40) {
+        throw new Error('invalid WAV file: WAVE_FORMAT_EXTENSIBLE fmt chunk is too short')
+      }
+      fmt.validBitsPerSample = view.getUint16(offset + 18, true) || fmt.bitsPerSample
+      fmt.formatTag = view.getUint16(offset + 24, true)
+    }
+
+    const codec = getCodec(fmt.formatTag)
+
+    if (codec === 'ima-adpcm') {
+      fmt.samplesPerBlock = getImaAdpcmSamplesPerBlock(fmt.blockAlign, fmt.channels)
+    }
+
+    this._fmt = fmt
+    this._decoder = codec ? createDecoder({ codec, channels: fmt.channels, blockAlign: fmt.blockAlign }) : null
+    this._params = {
+      channels: fmt.channels,
+      sampleRate: fmt.sampleRate,
+      format: this._toRtAudioFormat(fmt)
+    }
+  }
+
+  private _toRtAudioFormat(fmt: WavFmt): RtAudioFormat {
+    if (fmt.formatTag === WAVE_FORMAT_PCM) {
+      switch (fmt.bitsPerSample) {
+        case 8: return RtAudioFormat.RTAUDIO_SINT8
+        case 16: return RtAudioFormat.RTAUDIO_SINT16
+        case 24: return RtAudioFormat.RTAUDIO_SINT32
+        case 32: return RtAudioFormat.RTAUDIO_SINT32
+      }
+    }
+
+    if (fmt.formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+      switch (fmt.bitsPerSample) {
+        case 32: return RtAudioFormat.RTAUDIO_FLOAT32
+        case 64: return RtAudioFormat.RTAUDIO_FLOAT64
+      }
+    }
+
+    if ((fmt.formatTag === WAVE_FORMAT_ALAW || fmt.formatTag === WAVE_FORMAT_MULAW) && fmt.bitsPerSample === 8) {
+      return RtAudioFormat.RTAUDIO_SINT16
+    }
+
+    if (fmt.formatTag === WAVE_FORMAT_IMA_ADPCM && fmt.bitsPerSample === 4) {
+      return RtAudioFormat.RTAUDIO_SINT16
+    }
+
+    throw new Error(`unsupported WAV encoding: format tag 0x${fmt.formatTag.toString(16)}, ${fmt.bitsPerSample} bits per sample`)
+  }
+
+  private _pushData(chunk: Uint8Array) {
+    if (this._remaining !== Infinity) {
+      chunk = chunk.subarray(0, Math.min(chunk.byteLength, this._remaining))
+      this._remaining -= chunk.byteLength
+    }
+
+    this._pushSamples(this._decoder ? this._trimPadding(this._decoder.process(chunk)) : chunk)
+  }
+
+  /** Drop the frames past the number in the `fact` chunk, which pad the last block of an IMA ADPCM file */
+  private _trimPadding(decoded: Uint8Array) {
+    const fmt = this._fmt as WavFmt
+
+    if (fmt.formatTag !== WAVE_FORMAT_IMA_ADPCM || this._factFrames === null) {
+      return decoded
+    }
+
+    const frameSize = fmt.channels * 2
+    const trimmed = decoded.subarray(0, Math.min(decoded.byteLength, this._factFrames * frameSize))
+    this._factFrames -= trimmed.byteLength / frameSize
+    return trimmed
+  }
+
+  /** Push the samples, which are decoded to 16-bit samples in host byte order if the file is compressed */
+  private _pushSamples(chunk: Uint8Array) {
+    const fmt = this._fmt as WavFmt
+    const params = this._params as WavParams
+    const frameSize = this._decoder ? params.channels * 2 : fmt.blockAlign
+    const data = new Uint8Array(this._pending.byteLength + chunk.byteLength)
+    data.set(this._pending, 0)
+    data.set(chunk, this._pending.byteLength)
+
+    const blockSize = this._nonInterleavedFrames > 0 ? this._nonInterleavedFrames * frameSize : frameSize
+    const length = data.byteLength - data.byteLength % blockSize
+    this._pending = data.slice(length)
+
+    if (length === 0) {
+      return
+    }
+
+    let samples = data.slice(0, length)
+
+    if (fmt.bitsPerSample === 24) {
+      const widened = new Uint8Array(length / 3 * 4)
+      for (let from = 0, to = 0; from < length; from += 3, to += 4) {
+        widened[to + 1] = samples[from]
+        widened[to + 2] = samples[from + 1]
+        widened[to + 3] = samples[from + 2]
+      }
+      samples = widened
+    }
+
+    if (!this._decoder) {
+      convertSamples(samples, params.format)
+    }
+
+    if (this._nonInterleavedFrames > 0) {
+      const byteCount = rtAudioFormatToByteCount(params.format)
+      const outputBlockSize = this._nonInterleavedFrames * params.channels * byteCount
+      for (let offset = 0; offset < samples.byteLength; offset += outputBlockSize) {
+        this.push(deinterleave(samples.subarray(offset, offset + outputBlockSize), params.channels, byteCount))
+      }
+      return
+    }
+
+    this.push(samples)
+  }
+
+  /** @ignore */
+  on(event: 'close', listener: () => void): this
+  /** @ignore */
+  on(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  on(event: 'drain', listener: () => void): this
+  /** @ignore */
+  on(event: 'end', listener: () => void): this
+  /** @ignore */
+  on(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  on(event: 'finish', listener: () => void): this
+  /** @ignore */
+  on(event: 'pause', listener: () => void): this
+  /** @ignore */
+  on(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'readable', listener: () => void): this
+  /** @ignore */
+  on(event: 'resume', listener: () => void): this
+  /** @ignore */
+  on(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  on(event: 'format', listener: (params: WavParams) => void): this
+  /** @ignore */
+  on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener)
+  }
+
+  /** @ignore */
+  addListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  addListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  addListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  addListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  addListener(event: 'format', listener: (params: WavParams) => void): this
+  /** @ignore */
+  addListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.addListener(event, listener)
+  }
+
+  /** @ignore */
+  once(event: 'close', listener: () => void): this
+  /** @ignore */
+  once(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  once(event: 'drain', listener: () => void): this
+  /** @ignore */
+  once(event: 'end', listener: () => void): this
+  /** @ignore */
+  once(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  once(event: 'finish', listener: () => void): this
+  /** @ignore */
+  once(event: 'pause', listener: () => void): this
+  /** @ignore */
+  once(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'readable', listener: () => void): this
+  /** @ignore */
+  once(event: 'resume', listener: () => void): this
+  /** @ignore */
+  once(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  once(event: 'format', listener: (params: WavParams) => void): this
+  /** @ignore */
+  once(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(event, listener)
+  }
+
+  /** @ignore */
+  removeListener(event: 'close', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'data', listener: (chunk: any) => void): this
+  /** @ignore */
+  removeListener(event: 'drain', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'end', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'error', listener: (err: Error) => void): this
+  /** @ignore */
+  removeListener(event: 'finish', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pause', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'pipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'readable', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'resume', listener: () => void): this
+  /** @ignore */
+  removeListener(event: 'unpipe', listener: (src: Readable) => void): this
+  /** @ignore */
+  removeListener(event: 'format', listener: (params: WavParams) => void): this
+  /** @ignore */
+  removeListener(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.removeListener(event, listener)
+  }
+
+  /** @ignore */
+  emit(event: 'close'): boolean
+  /** @ignore */
+  emit(event: 'data', chunk: any): boolean
+  /** @ignore */
+  emit(event: 'drain'): boolean
+  /** @ignore */
+  emit(event: 'end'): boolean
+  /** @ignore */
+  emit(event: 'error', err: Error): boolean
+  /** @ignore */
+  emit(event: 'finish'): boolean
+  /** @ignore */
+  emit(event: 'pause'): boolean
+  /** @ignore */
+  emit(event: 'pipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'readable'): boolean
+  /** @ignore */
+  emit(event: 'resume'): boolean
+  /** @ignore */
+  emit(event: 'unpipe', src: Readable): boolean
+  /** @ignore */
+  emit(event: 'format', params: WavParams): boolean
+  /** @ignore */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    return super.emit(event, ...args)
+  }
+}
@@ -0,0 +1,92 @@
+import { ReadableStream, WritableStream } from 'stream/web'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { isNonInterleaved } from './common'
+import { decodeChunk, encodeChunk } from './samples'
+import { AudioInputStream } from './audio-input-stream'
+import { AudioOutputStream } from './audio-output-stream'
+import { AudioFrame } from './audio-frame'
+
+/**
+ * Iterate over the chunks of an {@link AudioInputStream | `AudioInputStream`} as one `Float32Array` per channel,
+ * like the channel data of Web Audio's `AudioBuffer`, whatever the format and the layout of the stream are:
+ *
+ * ```javascript
+ * for await (const [left, right] of planarChunks(audioStream)) {
+ *   analyse(left, right)
+ * }
+ * ```
+ *
+ * The samples are normalized between plus/minus 1.0. Breaking out of the loop destroys the stream.
+ *
+ * @param stream the stream to read
+ */
+export async function* planarChunks(stream: AudioInputStream): AsyncGenerator<Float32Array[]> {
+  const { channels, format, options } = stream.params
+  const nonInterleaved = isNonInterleaved(options)
+
+  for await (const chunk of stream) {
+    const data = chunk instanceof Uint8Array ? chunk : (chunk as AudioFrame).data
+    yield decodeChunk(data, format || RtAudioFormat.RTAUDIO_SINT16, channels, nonInterleaved)
+  }
+}
+
+/**
+ * Turn an {@link AudioInputStream | `AudioInputStream`} into a WHATWG `ReadableStream` of planar chunks, one
+ * `Float32Array` per channel, see {@link planarChunks}. Canceling the `ReadableStream` destroys the stream.
+ *
+ * @param stream the stream to read
+ */
+export const toReadableStream = (stream: AudioInputStream): ReadableStream<Float32Array[]> => {
+  const iterator = planarChunks(stream)
+
+  return new ReadableStream<Float32Array[]>({
+    async pull(controller) {
+      const { value, done } = await iterator.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined)
+    }
+  }, { highWaterMark: 1 })
+}
+
+/**
+ * Turn an {@link AudioOutputStream | `AudioOutputStream`} into a WHATWG `WritableStream` of planar chunks, one
+ * `Float32Array` per channel with samples normalized between plus/minus 1.0. They are encoded into the format
+ * and the layout of the stream. If `RTAUDIO_NONINTERLEAVED` is set, each chunk should have
+ * {@link AudioIOParams | `params.bufferFrames`} frames.
+ *
+ * A write resolves once the chunk is queued for playback, closing resolves once everything is played, and
+ * aborting destroys the stream.
+ *
+ * @param stream the stream to write
+ */
+export const toWritableStream = (stream: AudioOutputStream): WritableStream<Float32Array[]> => {
+  const { format, options } = stream.params
+  const nonInterleaved = isNonInterleaved(options)
+
+  return new WritableStream<Float32Array[]>({
+    write(planes) {
+      return new Promise<void>((resolve, reject) => {
+        stream.write(encodeChunk(planes, format || RtAudioFormat.RTAUDIO_SINT16, nonInterleaved), error => error ? reject(error) : resolve())
+      })
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        const onError = (error: Error) => reject(error)
+        stream.once('error', onError)
+        stream.end(() => {
+          stream.removeListener('error', onError)
+          resolve()
+        })
+      })
+    },
+    abort(reason) {
+      stream.destroy(reason instanceof Error ? reason : undefined)
+    }
+  }, { highWaterMark: 1 })
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import { strict as assert } from 'assert'
+import { RtAudioFormat, RtAudioStreamFlags } from '@hamitzor/rtaudio.js'
+import { AudioDuplexStream } from '../src/audio-duplex-stream'
+import { VirtualAudioHost } from '../src/virtual-backend'
+import { createChunk, getPlayed, settle } from './helpers'
+
+const createStream = (nonInterleaved: boolean) => {
+  const host = new VirtualAudioHost()
+  const stream = new AudioDuplexStream({
+    inputDeviceId: 1,
+    inputChannels: 1,
+    outputDeviceId: 1,
+    outputChannels: 2,
+    sampleRate: 48000,
+    bufferFrames: 4,
+    format: RtAudioFormat.RTAUDIO_SINT8,
+    options: { flags: nonInterleaved ? RtAudioStreamFlags.RTAUDIO_NONINTERLEAVED : 0 },
+    backend: host.backend
+  })
+  const [backend] = host.backends
+  const played = () => getPlayed(backend)
+
+  return { host, stream, played }
+}
+
+describe('AudioDuplexStream', () => {
+  it('plays the last partial chunk padded with silence before finishing', async () => {
+    const { host, stream, played } = createStream(false)
+    let finished = false
+
+    stream.on('finish', () => { finished = true })
+    stream.end(createChunk(9, 1, false))
+    await settle()
+
+    host.tick(3)
+    await settle()
+    assert.equal(finished, false)
+
+    host.tick()
+    await settle()
+    assert.equal(finished, true)
+    assert.deepEqual(played().slice(0, 3), [
+      [1, 101, 2, 102, 3, 103, 4, 104],
+      [5, 105, 6, 106, 7, 107, 8, 108],
+      [9, 109, 0, 0, 0, 0, 0, 0]
+    ])
+    stream.destroy()
+  })
+
+  it('pads each channel of a partial non-interleaved chunk separately', async () => {
+    const { host, stream, played } = createStream(true)
+
+    stream.write(createChunk(4, 1, true))
+    stream.end(createChunk(1, 5, true))
+    await settle()
+
+    host.tick(2)
+    assert.deepEqual(played(), [
+      [1, 2, 3, 4, 101, 102, 103, 104],
+      [5, 0, 0, 0, 105, 0, 0, 0]
+    ])
+    stream.destroy()
+  })
+})
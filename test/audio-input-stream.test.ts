@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test'
+import { strict as assert } from 'assert'
+import { RtAudioStreamStatus } from '@hamitzor/rtaudio.js'
+import { AudioInputStream } from '../src/audio-input-stream'
+import { AudioFrame, AudioGap } from '../src/audio-frame'
+import { VirtualAudioHost } from '../src/virtual-backend'
+import { settle } from './helpers'
+
+const createStream = async () => {
+  const host = new VirtualAudioHost()
+  const stream = new AudioInputStream({
+    deviceId: 1,
+    channels: 2,
+    sampleRate: 48000,
+    bufferFrames: 4,
+    objectMode: true,
+    backend: host.backend
+  })
+  const [backend] = host.backends
+  const frames: AudioFrame[] = []
+  const gaps: AudioGap[] = []
+
+  stream.on('data', frame => frames.push(frame))
+  stream.on('gap', gap => gaps.push(gap))
+  await settle()
+
+  return { host, backend, stream, frames, gaps }
+}
+
+describe('AudioInputStream', () => {
+  it('reports the frames lost to an overflow and counts them in the frame index', async () => {
+    const { host, backend, stream, frames, gaps } = await createStream()
+
+    host.tick(2)
+    backend.simulateOverflow(10)
+    host.tick(2)
+    await settle()
+
+    assert.deepEqual(frames.map(({ frameIndex, lostFrames, overflow }) => [frameIndex, lostFrames, overflow]), [
+      [0, 0, false],
+      [4, 0, false],
+      [18, 10, true],
+      [22, 0, false]
+    ])
+    assert.deepEqual(gaps.map(({ frameIndex, lostFrames }) => [frameIndex, lostFrames]), [[18, 10]])
+    stream.destroy()
+  })
+
+  it('reports an unknown number of lost frames if the stream time didn\'t advance through the overflow', async () => {
+    const { host, backend, stream, frames, gaps } = await createStream()
+
+    host.tick(2)
+    backend.simulateStatus(RtAudioStreamStatus.RTAUDIO_INPUT_OVERFLOW)
+    host.tick(2)
+    await settle()
+
+    assert.deepEqual(frames.map(({ frameIndex, lostFrames }) => [frameIndex, lostFrames]), [
+      [0, 0],
+      [4, 0],
+      [8, null],
+      [12, 0]
+    ])
+    assert.deepEqual(gaps.map(({ frameIndex, lostFrames }) => [frameIndex, lostFrames]), [[8, null]])
+    stream.destroy()
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test'
+import { strict as assert } from 'assert'
+import { RtAudioFormat, RtAudioStreamFlags } from '@hamitzor/rtaudio.js'
+import { AudioMixer } from '../src/audio-mixer'
+import { VirtualAudioHost } from '../src/virtual-backend'
+import { createChunk, getPlayed, settle } from './helpers'
+
+describe('AudioMixer', () => {
+  it('pads each channel of the last partial chunk of an input separately', async () => {
+    for (const nonInterleaved of [false, true]) {
+      const host = new VirtualAudioHost()
+      const mixer = new AudioMixer({
+        deviceId: 1,
+        channels: 2,
+        sampleRate: 48000,
+        bufferFrames: 4,
+        format: RtAudioFormat.RTAUDIO_SINT8,
+        options: { flags: nonInterleaved ? RtAudioStreamFlags.RTAUDIO_NONINTERLEAVED : 0 },
+        backend: host.backend
+      }, { limiter: false })
+      const [backend] = host.backends
+      const input = mixer.createInput()
+
+      input.write(createChunk(4, 1, nonInterleaved))
+      input.end(createChunk(1, 5, nonInterleaved))
+
+      // the mixer writes a chunk each time the output stream has room for one, so let it catch up after each period
+      for (let period = 0; period < 8; period++) {
+        host.tick()
+        await settle()
+      }
+
+      const played = getPlayed(backend).filter(buffer => buffer.some(sample => sample !== 0))
+
+      assert.deepEqual(played, nonInterleaved
+        ? [[1, 2, 3, 4, 101, 102, 103, 104], [5, 0, 0, 0, 105, 0, 0, 0]]
+        : [[1, 101, 2, 102, 3, 103, 4, 104], [5, 105, 0, 0, 0, 0, 0, 0]])
+      mixer.destroy()
+    }
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test'
+import { strict as assert } from 'assert'
+import { RtAudioFormat, RtAudioStreamFlags } from '@hamitzor/rtaudio.js'
+import { AudioOutputStream } from '../src/audio-output-stream'
+import { VirtualAudioHost } from '../src/virtual-backend'
+import { AudioIOParams } from '../src/types'
+import { createChunk, getPlayed, settle } from './helpers'
+
+const createStream = (options: Partial<AudioIOParams> = {}) => {
+  const host = new VirtualAudioHost()
+  const stream = new AudioOutputStream({
+    deviceId: 1,
+    channels: 2,
+    sampleRate: 48000,
+    bufferFrames: 4,
+    format: RtAudioFormat.RTAUDIO_SINT8,
+    backend: host.backend,
+    ...options
+  })
+  const [backend] = host.backends
+  const played = () => getPlayed(backend)
+
+  return { host, stream, played }
+}
+
+describe('AudioOutputStream', () => {
+  it('plays the last partial chunk padded with silence before finishing', async () => {
+    const { host, stream, played } = createStream()
+    let finished = false
+
+    stream.on('finish', () => { finished = true })
+    stream.write(createChunk(4, 1, false))
+    stream.end(createChunk(1, 5, false))
+    await settle()
+
+    host.tick(2)
+    await settle()
+    assert.equal(finished, false)
+
+    host.tick()
+    await settle()
+    assert.equal(finished, true)
+    assert.deepEqual(played().slice(0, 2), [
+      [1, 101, 2, 102, 3, 103, 4, 104],
+      [5, 105, 0, 0, 0, 0, 0, 0]
+    ])
+  })
+
+  it('pads each channel of a partial non-interleaved chunk separately', async () => {
+    const options = { flags: RtAudioStreamFlags.RTAUDIO_NONINTERLEAVED }
+
+    for (const underrunPolicy of ['silence-fill', 'zero-pad-partial'] as const) {
+      const { host, stream, played } = createStream({ options, underrunPolicy })
+
+      stream.write(createChunk(4, 1, true))
+      stream.write(createChunk(1, 5, true))
+      if (underrunPolicy === 'silence-fill') {
+        stream.end()
+      }
+      await settle()
+
+      host.tick(2)
+      assert.deepEqual(played(), [
+        [1, 2, 3, 4, 101, 102, 103, 104],
+        [5, 0, 0, 0, 105, 0, 0, 0]
+      ], underrunPolicy)
+      stream.destroy()
+    }
+  })
+
+  it('reports no underruns while idle', async () => {
+    const { host, stream } = createStream()
+    const underruns: number[] = []
+
+    stream.on('underrun', frames => underruns.push(frames))
+    host.tick(5)
+    await settle()
+
+    assert.deepEqual(underruns, [])
+    stream.destroy()
+  })
+
+  it('reports no underrun for a partial first chunk played with zero-pad-partial', async () => {
+    const { host, stream } = createStream({ underrunPolicy: 'zero-pad-partial' })
+    const underruns: number[] = []
+
+    stream.on('underrun', frames => underruns.push(frames))
+    stream.write(createChunk(1, 1, false))
+    await settle()
+
+    host.tick()
+    assert.deepEqual(underruns, [])
+
+    stream.write(createChunk(1, 2, false))
+    await settle()
+
+    host.tick()
+    assert.deepEqual(underruns, [3])
+    stream.destroy()
+  })
+
+  it('reports underruns once the writer falls behind, until the stream is drained', async () => {
+    const { host, stream } = createStream()
+    const underruns: number[] = []
+
+    stream.on('underrun', frames => underruns.push(frames))
+    stream.write(createChunk(4, 1, false))
+    await settle()
+
+    host.tick(3)
+    assert.deepEqual(underruns, [4, 4])
+
+    stream.write(createChunk(4, 1, false))
+    const drained = stream.drain()
+    host.tick(2)
+    await drained
+
+    host.tick(3)
+    assert.deepEqual(underruns, [4, 4])
+    stream.destroy()
+  })
+})
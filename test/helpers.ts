@@ -0,0 +1,28 @@
+import { VirtualAudioBackend } from '../src/virtual-backend'
+
+/** Let the pending callbacks and writes run */
+export const settle = () => new Promise(resolve => setImmediate(resolve))
+
+/** Wait until the condition holds, polling it every few milliseconds, and fail after two seconds */
+export const waitFor = async (condition: () => boolean) => {
+  const deadline = Date.now() + 2000
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('timed out')
+    }
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+/** Create a chunk of 8-bit stereo samples, the left channel counting from `start` and the right one from `start + 100` */
+export const createChunk = (frames: number, start: number, nonInterleaved: boolean) => {
+  const chunk = new Uint8Array(frames * 2)
+  for (let frame = 0; frame < frames; frame++) {
+    chunk[nonInterleaved ? frame : frame * 2] = start + frame
+    chunk[nonInterleaved ? frames + frame : frame * 2 + 1] = 100 + start + frame
+  }
+  return chunk
+}
+
+/** Get the buffers played by a virtual backend, one array of bytes per buffer period */
+export const getPlayed = (backend: VirtualAudioBackend) => backend.output.map(buffer => Array.from(buffer))
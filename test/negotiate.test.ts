@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test'
+import { strict as assert } from 'assert'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { assertSupportedParams } from '../src/negotiate'
+import { InvalidParameterError } from '../src/errors'
+import { VirtualAudioHost } from '../src/virtual-backend'
+
+const host = new VirtualAudioHost({
+  devices: [{
+    id: 1,
+    name: 'Virtual Device',
+    outputChannels: 2,
+    inputChannels: 2,
+    duplexChannels: 2,
+    isDefaultOutput: 1,
+    isDefaultInput: 1,
+    sampleRates: [44100, 48000],
+    preferredSampleRate: 48000,
+    nativeFormats: RtAudioFormat.RTAUDIO_SINT16
+  }]
+})
+
+describe('assertSupportedParams', () => {
+  it('accepts a non-native format, which is converted', () => {
+    assert.doesNotThrow(() => assertSupportedParams(host.backend(), 1, {
+      channels: 2,
+      sampleRate: 48000,
+      format: RtAudioFormat.RTAUDIO_FLOAT32
+    }, 'output'))
+  })
+
+  it('rejects unsupported channels and sample rates', () => {
+    assert.throws(() => assertSupportedParams(host.backend(), 1, { channels: 4, sampleRate: 48000 }, 'output'), InvalidParameterError)
+    assert.throws(() => assertSupportedParams(host.backend(), 1, { channels: 2, sampleRate: 22050 }, 'input'), InvalidParameterError)
+  })
+})
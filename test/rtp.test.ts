@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test'
+import { strict as assert } from 'assert'
+import { createSocket } from 'dgram'
+import { AddressInfo } from 'net'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { RtpReceiver, RtpSender } from '../src/rtp'
+import { decodeChunk, encodeChunk } from '../src/samples'
+import { waitFor } from './helpers'
+
+const sampleRate = 8000
+const packetFrames = 80
+const params = { channels: 1, sampleRate, format: RtAudioFormat.RTAUDIO_SINT16 }
+
+/** The value every sample of the packet with the given index is set to */
+const packetValue = (index: number) => (index + 1) / 16
+
+/**
+ * Send `count` packets of 10 ms with an {@link RtpSender} to a relay socket, which holds them back so that the test
+ * can forward them in any order to an {@link RtpReceiver} with the given maximum delay
+ */
+const withLoopback = async (
+  count: number,
+  maxDelay: number,
+  test: (receiver: RtpReceiver, forward: (indexes: number[]) => void) => Promise<void>
+) => {
+  const relay = createSocket('udp4')
+  const packets: Uint8Array[] = []
+  let receiver: RtpReceiver | null = null
+
+  relay.on('message', message => packets.push(message))
+
+  try {
+    await new Promise<void>(resolve => relay.bind(0, '127.0.0.1', resolve))
+
+    const sender = new RtpSender({ ...params, address: '127.0.0.1', port: (relay.address() as AddressInfo).port, packetDuration: 10 })
+    const planes = [new Float32Array(count * packetFrames).map((_, frame) => packetValue(Math.floor(frame / packetFrames)))]
+
+    await new Promise<void>((resolve, reject) => sender.end(encodeChunk(planes, params.format), () => resolve()).on('error', reject))
+    await waitFor(() => packets.length === count)
+
+    const listening = new RtpReceiver({ ...params, address: '127.0.0.1', minDelay: 10, maxDelay })
+    receiver = listening
+    await new Promise<void>(resolve => listening.once('listening', () => resolve()))
+
+    const port = (listening.address as AddressInfo).port
+    await test(listening, indexes => indexes.forEach(index => relay.send(packets[index], port, '127.0.0.1')))
+  } finally {
+    relay.close()
+    if (receiver) {
+      receiver.destroy()
+    }
+  }
+}
+
+/** Read the delivered audio as the mean of each packet, the receiver being closed once `count` packets arrived */
+const readPackets = async (receiver: RtpReceiver, count: number) => {
+  await waitFor(() => receiver.stats.received === count)
+  receiver.close()
+
+  const chunks: Uint8Array[] = []
+  for await (const chunk of receiver) {
+    chunks.push(chunk)
+  }
+
+  return toPacketMeans(Buffer.concat(chunks))
+}
+
+const toPacketMeans = (data: Uint8Array) => {
+  const [samples] = decodeChunk(data, params.format, params.channels)
+  const means: number[] = []
+
+  for (let offset = 0; offset < samples.length; offset += packetFrames) {
+    const packet = samples.subarray(offset, offset + packetFrames)
+    means.push(packet.reduce((sum, sample) => sum + sample, 0) / packet.length)
+  }
+
+  return means
+}
+
+describe('RtpReceiver', () => {
+  it('puts reordered packets back in sequence', () => withLoopback(5, 100, async (receiver, forward) => {
+    forward([0, 2, 1, 4, 3])
+
+    assert.deepEqual(await readPackets(receiver, 5), [0, 1, 2, 3, 4].map(packetValue))
+    assert.equal(receiver.stats.lost, 0)
+  }))
+
+  it('conceals a lost packet by fading the previous one out', () => withLoopback(5, 100, async (receiver, forward) => {
+    forward([0, 1, 3, 4])
+
+    const means = await readPackets(receiver, 4)
+
+    assert.equal(means.length, 5)
+    assert.deepEqual([means[0], means[1], means[3], means[4]], [0, 1, 3, 4].map(packetValue))
+    assert.ok(means[2] > 0 && means[2] < packetValue(1), 'the concealed packet should be a faded copy of the previous one')
+    assert.equal(receiver.stats.lost, 1)
+  }))
+
+  it('drops a packet that arrives after its turn was concealed', () => withLoopback(6, 50, async (receiver, forward) => {
+    const chunks: Uint8Array[] = []
+
+    forward([0, 1, 3, 4, 5])
+    await waitFor(() => receiver.stats.received === 5)
+
+    receiver.on('data', chunk => chunks.push(chunk))
+    await waitFor(() => receiver.stats.lost === 1)
+
+    forward([2])
+    await waitFor(() => receiver.stats.late === 1)
+
+    receiver.close()
+    await new Promise<void>(resolve => receiver.once('end', () => resolve()))
+
+    const means = toPacketMeans(Buffer.concat(chunks))
+
+    assert.equal(means.length, 6)
+    assert.deepEqual([means[0], means[1], means[3], means[4], means[5]], [0, 1, 3, 4, 5].map(packetValue))
+    assert.equal(receiver.stats.received, 5)
+  }))
+
+  it('drops the oldest packets once more than the maximum delay is buffered', () => withLoopback(6, 20, async (receiver, forward) => {
+    forward([0, 1, 2, 3, 4, 5])
+
+    assert.deepEqual(await readPackets(receiver, 6), [4, 5].map(packetValue))
+    assert.equal(receiver.stats.dropped, 4)
+    assert.equal(receiver.stats.lost, 0)
+  }))
+})
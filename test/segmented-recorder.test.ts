@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test'
+import { strict as assert } from 'assert'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { RtAudioFormat } from '@hamitzor/rtaudio.js'
+import { AudioInputStream } from '../src/audio-input-stream'
+import { SegmentedRecorder, SegmentInfo } from '../src/segmented-recorder'
+import { VirtualAudioHost } from '../src/virtual-backend'
+import { createChunk, settle } from './helpers'
+
+describe('SegmentedRecorder', () => {
+  it('splits the recording at the maximum duration without losing any frame', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'sonance-'))
+    const host = new VirtualAudioHost()
+    const params = { channels: 2, sampleRate: 48000, format: RtAudioFormat.RTAUDIO_SINT8, bufferFrames: 4 }
+    const stream = new AudioInputStream({ ...params, deviceId: 1, backend: host.backend })
+    const recorder = new SegmentedRecorder({
+      ...params,
+      path: index => join(directory, `${index}.raw`),
+      container: 'raw',
+      maxDuration: 6 / 48
+    })
+    const [backend] = host.backends
+    const segments: SegmentInfo[] = []
+    const chunks = [1, 5, 9, 13].map(start => createChunk(4, start, false))
+
+    try {
+      recorder.on('segment', info => segments.push(info))
+      stream.on('data', chunk => recorder.write(chunk))
+      await settle()
+
+      backend.injectInput(...chunks)
+      host.tick(chunks.length)
+      await settle()
+
+      await new Promise<void>((resolve, reject) => recorder.end(() => resolve()).on('error', reject))
+
+      assert.deepEqual(segments.map(({ index, startFrame, frames, reason }) => [index, startFrame, frames, reason]), [
+        [0, 0, 6, 'duration'],
+        [1, 6, 6, 'duration'],
+        [2, 12, 4, 'end']
+      ])
+      assert.deepEqual(
+        Buffer.concat(segments.map(({ path }) => readFileSync(path))),
+        Buffer.concat(chunks)
+      )
+    } finally {
+      stream.destroy()
+      rmSync(directory, { recursive: true, force: true })
+    }
+  })
+})